@@ -0,0 +1,56 @@
+import { BigNumber } from '@injectivelabs/utils';
+import { z } from "zod";
+
+// Plain decimal notation only: no exponents, signs or thousands separators
+const DECIMAL_PATTERN = /^\d+(\.\d+)?$/;
+
+/**
+ * Human-unit amount accepted by tool schemas as a decimal string (preferred) or a number.
+ * Numbers are converted without going through exponent notation.
+ */
+export const AmountSchema = z.union([z.string(), z.number()])
+    .transform((value) => typeof value === 'number' ? new BigNumber(value).toFixed() : value.trim())
+    .refine((value) => DECIMAL_PATTERN.test(value), { message: "Amount must be a plain decimal number, e.g. \"1.5\"" })
+    .refine((value) => new BigNumber(value).gt(0), { message: "Amount must be greater than 0" });
+
+/**
+ * Converts a human-unit decimal amount into an integer string of base units.
+ * Fails instead of rounding when the amount has more decimal places than the token supports.
+ */
+export function toBaseUnits(amount: string | BigNumber, decimals: number): string {
+    const value = new BigNumber(amount);
+    if (!value.isFinite() || value.isNegative()) {
+        throw new Error(`Invalid amount: ${amount}`);
+    }
+
+    const baseUnits = value.shiftedBy(decimals);
+    if (!baseUnits.isInteger()) {
+        throw new Error(`Amount ${value.toFixed()} has more than ${decimals} decimal places`);
+    }
+    return baseUnits.toFixed(0);
+}
+
+/**
+ * Converts an integer amount of base units into an exact human-unit decimal string
+ */
+export function fromBaseUnits(baseUnits: string | BigNumber, decimals: number): string {
+    const value = new BigNumber(baseUnits);
+    if (!value.isFinite()) {
+        throw new Error(`Invalid base unit amount: ${baseUnits}`);
+    }
+    return value.shiftedBy(-decimals).toFixed();
+}
+
+/**
+ * Converts a chain spot price (quote base units per base base unit) into a human price
+ */
+export function toHumanPrice(chainPrice: string | BigNumber, baseDecimals: number, quoteDecimals: number): string {
+    return new BigNumber(chainPrice).shiftedBy(baseDecimals - quoteDecimals).toFixed();
+}
+
+/**
+ * Converts a human price into a chain spot price (quote base units per base base unit)
+ */
+export function toChainPrice(humanPrice: string | BigNumber, baseDecimals: number, quoteDecimals: number): string {
+    return new BigNumber(humanPrice).shiftedBy(quoteDecimals - baseDecimals).toFixed();
+}
@@ -0,0 +1,152 @@
+import type { PrivateKey } from '@injectivelabs/sdk-ts';
+import { BigNumber } from '@injectivelabs/utils';
+import { AmountSchema, toBaseUnits } from './amounts.js';
+import { broadcastMsgs } from './broadcast.js';
+import type { BroadcastResult, Coin, FeeOptions } from './broadcast.js';
+import { ToolError } from './errors.js';
+import type { NetworkContext } from './network.js';
+import { getTokenMetadata, normalizeDenom } from './tokens.js';
+
+// Keeps a single transaction well within the block gas limit
+export const MAX_BATCH_TRANSFERS = 500;
+
+export interface BatchTransferEntry {
+    recipient: string;
+    amount: string; // Human units
+    denom: string; // Denom or symbol
+}
+
+export interface BatchTransferResult {
+    tx: BroadcastResult;
+    from: string;
+    transfers: { recipient: string; amount: string; denom: string; symbol: string }[];
+}
+
+/**
+ * Parses `recipient,amount[,denom]` lines. Blank lines, `#` comments and a header row starting with
+ * "recipient" or "address" are skipped; the denom defaults to inj.
+ */
+export function parseTransferCsv(csv: string): BatchTransferEntry[] {
+    const entries: BatchTransferEntry[] = [];
+    const errors: string[] = [];
+
+    csv.split(/\r?\n/).forEach((line, index) => {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('#') || (entries.length === 0 && /^(recipient|address)\b/i.test(trimmed))) {
+            return;
+        }
+
+        const fields = trimmed.split(',').map((field) => field.trim());
+        if (fields.length < 2 || fields.length > 3) {
+            errors.push(`line ${index + 1}: expected recipient,amount[,denom] but got ${fields.length} field(s)`);
+            return;
+        }
+        entries.push({ recipient: fields[0], amount: fields[1], denom: fields[2] || 'inj' });
+    });
+
+    if (errors.length > 0) {
+        throw new ToolError('INVALID_CSV', `Could not parse the CSV: ${errors.join('; ')}`, { errors });
+    }
+    if (entries.length === 0) {
+        throw new ToolError('INVALID_CSV', 'The CSV does not contain any transfers');
+    }
+    return entries;
+}
+
+/**
+ * Checks that the address is a well-formed inj account address, including its checksum
+ */
+export async function isAccountAddress(address: string): Promise<boolean> {
+    const { getEthereumAddress } = await import('@injectivelabs/sdk-ts');
+    if (!address.startsWith('inj1')) {
+        return false;
+    }
+    try {
+        return /^0x[0-9a-f]{40}$/.test(getEthereumAddress(address));
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Sends every entry from the signer in one MsgMultiSend, so either all recipients are paid or none are.
+ * All addresses, amounts and denoms are validated before anything is signed, and every problem is reported at once.
+ */
+export async function batchTransfer(
+    network: NetworkContext,
+    privateKey: PrivateKey,
+    entries: BatchTransferEntry[],
+    feeOptions: FeeOptions = {}
+): Promise<BatchTransferResult> {
+    const { MsgMultiSend } = await import('@injectivelabs/sdk-ts');
+    if (entries.length > MAX_BATCH_TRANSFERS) {
+        throw new ToolError('BATCH_TOO_LARGE', `A batch can hold at most ${MAX_BATCH_TRANSFERS} transfers, got ${entries.length}`);
+    }
+
+    const injectiveAddress = privateKey.toBech32();
+    const errors: string[] = [];
+    const transfers: (BatchTransferResult['transfers'][number] & { baseAmount: string })[] = [];
+
+    for (const [index, entry] of entries.entries()) {
+        const label = `entry ${index + 1} (${entry.recipient})`;
+        if (!await isAccountAddress(entry.recipient)) {
+            errors.push(`${label}: not a valid inj1... address`);
+            continue;
+        }
+
+        const amount = AmountSchema.safeParse(entry.amount);
+        if (!amount.success) {
+            errors.push(`${label}: ${amount.error.issues[0].message}`);
+            continue;
+        }
+
+        try {
+            const denom = await normalizeDenom(entry.denom, network);
+            const { symbol, decimals } = await getTokenMetadata(denom, network);
+            transfers.push({
+                recipient: entry.recipient,
+                amount: amount.data,
+                denom,
+                symbol,
+                baseAmount: toBaseUnits(amount.data, decimals)
+            });
+        } catch (error: any) {
+            errors.push(`${label}: ${error.message}`);
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new ToolError('INVALID_BATCH', `Nothing was sent. Fix these entries: ${errors.join('; ')}`, { errors });
+    }
+
+    // The bank module requires coins sorted by denom, with the input equal to the sum of the outputs
+    const toCoins = (amounts: Map<string, BigNumber>): Coin[] => [...amounts.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([denom, amount]) => ({ denom, amount: amount.toFixed() }));
+    const add = (amounts: Map<string, BigNumber>, denom: string, amount: string) =>
+        amounts.set(denom, (amounts.get(denom) ?? new BigNumber(0)).plus(amount));
+
+    const totals = new Map<string, BigNumber>();
+    const byRecipient = new Map<string, Map<string, BigNumber>>();
+    for (const transfer of transfers) {
+        add(totals, transfer.denom, transfer.baseAmount);
+        if (!byRecipient.has(transfer.recipient)) {
+            byRecipient.set(transfer.recipient, new Map());
+        }
+        add(byRecipient.get(transfer.recipient)!, transfer.denom, transfer.baseAmount);
+    }
+
+    const spend = toCoins(totals);
+    const msg = MsgMultiSend.fromJSON({
+        inputs: [{ address: injectiveAddress, coins: spend }],
+        outputs: [...byRecipient.entries()].map(([address, amounts]) => ({ address, coins: toCoins(amounts) }))
+    });
+
+    const tx = await broadcastMsgs(network, privateKey, [msg], `batch transfer to ${byRecipient.size} recipient(s)`, { ...feeOptions, spend, recipients: [...byRecipient.keys()] });
+
+    return {
+        tx,
+        from: injectiveAddress,
+        transfers: transfers.map(({ baseAmount: _baseAmount, ...transfer }) => transfer)
+    };
+}
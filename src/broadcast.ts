@@ -0,0 +1,310 @@
+import type { PrivateKey } from '@injectivelabs/sdk-ts';
+import { BigNumber, DEFAULT_BLOCK_TIME_IN_SECONDS, DEFAULT_BLOCK_TIMEOUT_HEIGHT, DEFAULT_GAS_PRICE, getStdFee } from '@injectivelabs/utils';
+import { fromBaseUnits } from './amounts.js';
+import { requireConfirmation } from './confirmation.js';
+import { ToolError } from './errors.js';
+import type { NetworkContext } from './network.js';
+import { releaseSpend, reserveSpend } from './policy.js';
+import { getTokenMetadata } from './tokens.js';
+import { normalizeEvents, toTransactionFees } from './transactions.js';
+import type { TransactionEvent, TransactionFee } from './transactions.js';
+
+// Broadcasts rejected for a stale account sequence are re-signed with a fresh one this many times
+const MAX_SEQUENCE_RETRIES = 3;
+
+// Headroom over simulated gas, since state can change between simulation and execution
+const DEFAULT_GAS_MULTIPLIER = 1.3;
+
+// The transaction is only valid for this many blocks, so polling any longer than that is pointless
+const INCLUSION_TIMEOUT_MS = DEFAULT_BLOCK_TIMEOUT_HEIGHT * DEFAULT_BLOCK_TIME_IN_SECONDS * 1000;
+
+/**
+ * Amount of a denom in base units
+ */
+export interface Coin {
+    denom: string;
+    amount: string;
+}
+
+export interface FeeOptions {
+    simulate?: boolean; // Size the gas limit from a simulation instead of per-message defaults
+    gasPrice?: string; // inj base units per unit of gas
+    gasMultiplier?: number; // Applied to the simulated gas
+}
+
+export interface BroadcastOptions extends FeeOptions {
+    spend?: Coin[]; // Checked against the bank balance, together with the fee, and the spending policy before signing
+    policySpend?: Coin[]; // Counted by the spending policy instead of `spend`, e.g. funds taken from a subaccount rather than the bank
+    recipients?: string[]; // Addresses receiving tokens, checked against the spending policy's allow and deny lists
+}
+
+export interface FeeEstimate {
+    gasUsed: number; // Simulated
+    gasLimit: number;
+    gasPrice: string;
+    gasMultiplier: number;
+    fee: TransactionFee;
+    feeAmount: Coin[]; // The fee in base units, as the chain charges it
+}
+
+/**
+ * A transaction that was included in a block and executed successfully
+ */
+export interface BroadcastResult {
+    txHash: string;
+    height: number;
+    gasWanted: number;
+    gasUsed: number;
+    fees: TransactionFee[];
+    events: TransactionEvent[];
+    estimate?: FeeEstimate; // Set when the gas limit came from a simulation
+}
+
+interface DecodedTxError {
+    code: string;
+    description: string;
+}
+
+// Cosmos SDK error codes (codespace "sdk") worth explaining
+const SDK_ERRORS: Record<number, DecodedTxError> = {
+    4: { code: 'UNAUTHORIZED', description: 'the signer is not allowed to perform this action' },
+    5: { code: 'INSUFFICIENT_FUNDS', description: 'insufficient funds' },
+    11: { code: 'OUT_OF_GAS', description: 'the transaction ran out of gas' },
+    13: { code: 'INSUFFICIENT_FEE', description: 'the fee is too low' },
+    19: { code: 'TX_IN_MEMPOOL', description: 'the transaction is already waiting in the mempool' },
+    30: { code: 'TX_EXPIRED', description: 'the transaction expired before it was included' },
+    32: { code: 'SEQUENCE_MISMATCH', description: 'account sequence mismatch, another transaction from this account was sent at the same time' }
+};
+
+// Module errors are recognized from the chain log since their codes differ between modules and chain versions
+const LOG_PATTERNS: [RegExp, DecodedTxError][] = [
+    [/insufficient funds|insufficient balance|insufficient deposit/i, { code: 'INSUFFICIENT_FUNDS', description: 'insufficient funds' }],
+    [/account sequence mismatch|incorrect account sequence/i, SDK_ERRORS[32]],
+    [/out of gas/i, SDK_ERRORS[11]],
+    [/tick size/i, { code: 'TICK_SIZE_VIOLATION', description: 'the price or quantity is not a multiple of the market tick size' }],
+    [/notional/i, { code: 'BELOW_MIN_NOTIONAL', description: 'the order value is below the market minimum notional' }],
+    [/post.?only/i, { code: 'POST_ONLY_WOULD_CROSS', description: 'the post-only order would have matched immediately' }],
+    [/unauthorized/i, SDK_ERRORS[4]]
+];
+
+/**
+ * Maps a failed transaction's code, codespace and log to a stable error code and a readable description
+ */
+export function decodeTxError(code: number | undefined, codespace: string | undefined, log: string): DecodedTxError {
+    if (codespace === 'sdk' && code !== undefined && SDK_ERRORS[code]) {
+        return SDK_ERRORS[code];
+    }
+    for (const [pattern, decoded] of LOG_PATTERNS) {
+        if (pattern.test(log)) {
+            return decoded;
+        }
+    }
+    return { code: 'TX_FAILED', description: `the transaction failed${codespace ? ` with ${codespace} error ${code}` : ''}` };
+}
+
+type StdFee = ReturnType<typeof getStdFee>;
+
+/**
+ * Builds an unsigned transaction with the account's current sequence and a timeout height, so it cannot be
+ * included after the inclusion timeout
+ */
+async function buildTx(network: NetworkContext, privateKey: PrivateKey, msgs: any[], fee: StdFee) {
+    const { ChainGrpcAuthApi, ChainGrpcTendermintApi, createTransaction } = await import('@injectivelabs/sdk-ts');
+
+    const { baseAccount } = await new ChainGrpcAuthApi(network.endpoints.grpc).fetchAccount(privateKey.toBech32());
+    const latestBlock = await new ChainGrpcTendermintApi(network.endpoints.grpc).fetchLatestBlock();
+
+    return createTransaction({
+        message: msgs,
+        memo: '',
+        fee,
+        pubKey: privateKey.toPublicKey().toBase64(),
+        sequence: baseAccount.sequence,
+        accountNumber: baseAccount.accountNumber,
+        chainId: network.chainId,
+        timeoutHeight: Number(latestBlock?.header?.height ?? 0) + DEFAULT_BLOCK_TIMEOUT_HEIGHT
+    });
+}
+
+async function signTx(network: NetworkContext, privateKey: PrivateKey, msgs: any[], fee: StdFee) {
+    const { txRaw, signBytes } = await buildTx(network, privateKey, msgs, fee);
+    txRaw.signatures = [await privateKey.sign(Buffer.from(signBytes))];
+    return txRaw;
+}
+
+/**
+ * Runs the messages through the chain's simulation and sizes the gas limit from the gas it used.
+ * Simulation failures are decoded like broadcast failures, so nothing is signed for a doomed transaction.
+ */
+export async function estimateFee(
+    network: NetworkContext,
+    privateKey: PrivateKey,
+    msgs: any[],
+    action: string,
+    options: FeeOptions = {}
+): Promise<FeeEstimate> {
+    const { TxGrpcApi } = await import('@injectivelabs/sdk-ts');
+    const gasPrice = options.gasPrice ?? DEFAULT_GAS_PRICE.toString();
+    const gasMultiplier = options.gasMultiplier ?? DEFAULT_GAS_MULTIPLIER;
+
+    let gasUsed: number;
+    try {
+        const { txRaw } = await buildTx(network, privateKey, msgs, getStdFee({ gasPrice }));
+        txRaw.signatures = [new Uint8Array(0)];
+        ({ gasInfo: { gasUsed } } = await new TxGrpcApi(network.endpoints.grpc).simulate(txRaw));
+    } catch (error: any) {
+        const log = error.originalMessage || error.message;
+        const decoded = decodeTxError(error.contextCode, error.contextModule, log);
+        throw new ToolError(decoded.code === 'TX_FAILED' ? 'SIMULATION_FAILED' : decoded.code,
+            `Simulation of ${action} failed: ${decoded.description}. Chain log: ${log}`);
+    }
+
+    const gasLimit = Math.ceil(gasUsed * gasMultiplier);
+    const fee = getStdFee({ gas: gasLimit.toString(), gasPrice });
+    const [feeInInj] = await toTransactionFees(network, fee.amount);
+
+    return { gasUsed, gasLimit, gasPrice, gasMultiplier, fee: feeInInj, feeAmount: fee.amount };
+}
+
+/**
+ * Lists, in human units, every denom whose bank balance does not cover what the transaction spends plus its fee
+ */
+export async function findShortfalls(network: NetworkContext, address: string, spend: Coin[], fee: Coin[]): Promise<string[]> {
+    const { ChainGrpcBankApi } = await import('@injectivelabs/sdk-ts');
+    const chainGrpcBankApi = new ChainGrpcBankApi(network.endpoints.grpc);
+
+    const required = new Map<string, { spend: BigNumber; fee: BigNumber }>();
+    const add = (coin: Coin, kind: 'spend' | 'fee') => {
+        const entry = required.get(coin.denom) ?? { spend: new BigNumber(0), fee: new BigNumber(0) };
+        entry[kind] = entry[kind].plus(coin.amount);
+        required.set(coin.denom, entry);
+    };
+    spend.forEach((coin) => add(coin, 'spend'));
+    fee.forEach((coin) => add(coin, 'fee'));
+
+    const shortfalls: string[] = [];
+    for (const [denom, { spend: spent, fee: paid }] of required) {
+        const balance = new BigNumber((await chainGrpcBankApi.fetchBalance({ accountAddress: address, denom }))?.amount || 0);
+        if (balance.gte(spent.plus(paid))) {
+            continue;
+        }
+        const { symbol, decimals } = await getTokenMetadata(denom, network);
+        const human = (amount: BigNumber) => `${fromBaseUnits(amount.decimalPlaces(0, BigNumber.ROUND_UP), decimals)} ${symbol}`;
+        shortfalls.push(`balance of ${human(balance)} does not cover ` +
+            (spent.gt(0) && paid.gt(0) ? `${human(spent)} plus a fee of ${human(paid)}` : spent.gt(0) ? human(spent) : `the fee of ${human(paid)}`));
+    }
+    return shortfalls;
+}
+
+/**
+ * Broadcasts messages signed by the given key and waits until the transaction is included in a block.
+ * The spending policy is enforced first, reserving what the transaction spends in the ledger until it is known
+ * whether it was broadcast. With `simulate` the gas limit comes from a simulation, and with `spend`
+ * the balance must cover it plus the fee before anything is signed. Transactions above the policy's confirmation
+ * thresholds are then held back until a human approves them. Non-zero result codes are decoded into ToolErrors naming the action that was
+ * attempted, stale account sequences are retried, and a transaction that is not included in time fails with TX_TIMEOUT.
+ */
+export async function broadcastMsgs(
+    network: NetworkContext,
+    privateKey: PrivateKey,
+    msgs: any[],
+    action: string,
+    options: BroadcastOptions = {}
+): Promise<BroadcastResult> {
+    const policySpend = options.policySpend ?? options.spend ?? [];
+    // Replaced when the spending is checked again after a confirmation
+    const reservation = { id: await reserveSpend(network, policySpend, options.recipients ?? [], action) };
+
+    try {
+        return await signAndBroadcast(network, privateKey, msgs, action, options, policySpend, reservation);
+    } catch (error: any) {
+        // A transaction that timed out or was lost in transport may still be included, so its spending stays counted
+        const mayBeIncluded = error instanceof ToolError && error.details?.txHash !== undefined
+            && (error.code === 'TX_TIMEOUT' || error.code === 'BROADCAST_FAILED');
+        if (!mayBeIncluded) {
+            await releaseSpend(network, reservation.id);
+        }
+        throw error;
+    }
+}
+
+async function assertFunded(network: NetworkContext, privateKey: PrivateKey, action: string, options: BroadcastOptions, fee: Coin[]) {
+    if (options.spend) {
+        const shortfalls = await findShortfalls(network, privateKey.toBech32(), options.spend, fee);
+        if (shortfalls.length > 0) {
+            throw new ToolError('INSUFFICIENT_FUNDS', `Cannot send ${action}: the ${shortfalls.join('; the ')}`);
+        }
+    }
+}
+
+async function signAndBroadcast(
+    network: NetworkContext,
+    privateKey: PrivateKey,
+    msgs: any[],
+    action: string,
+    options: BroadcastOptions,
+    policySpend: Coin[],
+    reservation: { id: string }
+): Promise<BroadcastResult> {
+    const { TxClient, TxGrpcApi, getGasPriceBasedOnMessage } = await import('@injectivelabs/sdk-ts');
+    const txApi = new TxGrpcApi(network.endpoints.grpc);
+
+    const estimate = options.simulate ? await estimateFee(network, privateKey, msgs, action, options) : undefined;
+    const fee = getStdFee({
+        gas: (estimate?.gasLimit ?? getGasPriceBasedOnMessage(msgs)).toString(),
+        gasPrice: options.gasPrice ?? DEFAULT_GAS_PRICE.toString()
+    });
+
+    await assertFunded(network, privateKey, action, options, fee.amount);
+
+    if (await requireConfirmation(network, privateKey, msgs, action, policySpend, fee)) {
+        // The policy, the day's spending and the balance may have changed while the transaction waited for approval
+        await releaseSpend(network, reservation.id);
+        reservation.id = await reserveSpend(network, policySpend, options.recipients ?? [], action);
+        await assertFunded(network, privateKey, action, options, fee.amount);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+        let txRaw;
+        try {
+            txRaw = await signTx(network, privateKey, msgs, fee);
+        } catch (error: any) {
+            throw new ToolError('BROADCAST_FAILED', `Failed to prepare ${action}: ${error.message}`);
+        }
+        // Known before broadcasting, so failures and timeouts can still point at the transaction
+        const txHash = TxClient.hash(txRaw);
+
+        try {
+            const txResponse = await txApi.broadcast(txRaw, { timeout: INCLUSION_TIMEOUT_MS });
+            return {
+                txHash: txResponse.txHash,
+                height: txResponse.height,
+                gasWanted: txResponse.gasWanted,
+                gasUsed: txResponse.gasUsed,
+                fees: await toTransactionFees(network, fee.amount),
+                events: normalizeEvents(txResponse.events),
+                estimate
+            };
+        } catch (error: any) {
+            const log = error.originalMessage || error.message;
+            if (/not included in a block/i.test(log)) {
+                throw new ToolError('TX_TIMEOUT',
+                    `Transaction ${txHash} for ${action} was not included in a block within ${INCLUSION_TIMEOUT_MS / 1000}s. ` +
+                    'Check it with get-transaction before retrying.', { txHash });
+            }
+            // Chain errors carry the result code, codespace and raw log; anything else is a transport failure
+            if (error.type !== 'chain-error') {
+                throw new ToolError('BROADCAST_FAILED', `Failed to broadcast ${action}: ${error.message}`, { txHash });
+            }
+
+            const decoded = decodeTxError(error.contextCode, error.contextModule, log);
+            if (decoded.code === 'SEQUENCE_MISMATCH' && attempt < MAX_SEQUENCE_RETRIES) {
+                console.error(`Account sequence mismatch broadcasting ${action}, retrying (${attempt + 1}/${MAX_SEQUENCE_RETRIES})`);
+                await new Promise((resolve) => setTimeout(resolve, DEFAULT_BLOCK_TIME_IN_SECONDS * 1000));
+                continue;
+            }
+            throw new ToolError(decoded.code, `Transaction ${txHash} for ${action} failed: ${decoded.description}. Chain log: ${log}`,
+                { txHash, code: error.contextCode, codespace: error.contextModule });
+        }
+    }
+}
@@ -0,0 +1,60 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+
+// Configuration storage setup
+const homeDir = os.homedir();
+export const configDir = process.env.INJECTIVE_MCP_HOME || path.join(homeDir, '.injective');
+export const configFilePath = process.env.INJECTIVE_MCP_CONFIG || path.join(configDir, 'config.json');
+export const policyFilePath = process.env.INJECTIVE_MCP_POLICY || path.join(configDir, 'policy.json');
+
+/**
+ * Endpoint set for a custom network, e.g. a local injectived node
+ */
+export interface CustomNetworkConfig {
+    base?: string; // Built-in network to take defaults from (default: local)
+    grpc?: string;
+    indexer?: string;
+    rest?: string;
+    rpc?: string;
+    chainId?: string;
+}
+
+/**
+ * User-supplied token metadata, taking precedence over chain and indexer data
+ */
+export interface TokenOverride {
+    symbol?: string;
+    name?: string;
+    decimals: number;
+}
+
+export interface McpConfig {
+    network?: string;
+    networks?: Record<string, CustomNetworkConfig>;
+    keystorePath?: string;
+    tokens?: Record<string, TokenOverride>;
+}
+
+let cachedConfig: McpConfig | null = null;
+
+/**
+ * Loads the server configuration file, returning an empty config if none exists
+ */
+export async function loadConfig(): Promise<McpConfig> {
+    if (cachedConfig) {
+        return cachedConfig;
+    }
+
+    try {
+        const jsonString = await fs.readFile(configFilePath, 'utf8');
+        cachedConfig = JSON.parse(jsonString) as McpConfig;
+    } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+            throw new Error(`Failed to read config file ${configFilePath}: ${error.message}`);
+        }
+        cachedConfig = {};
+    }
+
+    return cachedConfig;
+}
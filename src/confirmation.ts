@@ -0,0 +1,215 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import type { PrivateKey } from '@injectivelabs/sdk-ts';
+import type { Coin } from './broadcast.js';
+import { ToolError } from './errors.js';
+import type { NetworkContext } from './network.js';
+import { assertToolEnabled, findConfirmationReasons, loadPolicy } from './policy.js';
+import { toTransactionFees } from './transactions.js';
+
+// Message fields longer than this, such as contract bytecode, are shortened in summaries
+const MAX_SUMMARY_FIELD_LENGTH = 200;
+
+// Expired tokens are remembered this long, so confirming one late reports that it expired rather than that it is unknown
+const EXPIRED_TOKEN_RETENTION_MS = 60 * 60 * 1000;
+
+/**
+ * Asks a human to approve a prepared transaction, e.g. through MCP elicitation.
+ * Resolves to undefined when nobody can be asked, so the transaction waits for confirm-transaction instead.
+ */
+export type ConfirmationProvider = (summary: string) => Promise<boolean | undefined>;
+
+let confirmationProvider: ConfirmationProvider | null = null;
+
+/**
+ * What a tool call produced next: its result, or a transaction it holds until confirm-transaction
+ */
+export type ConfirmableOutcome<T> =
+    | { status: 'done'; result: T }
+    | { status: 'held'; summary: string };
+
+/**
+ * A running tool call. It is suspended while one of its transactions is held, and whoever resumes it
+ * waits for its next outcome.
+ */
+interface ConfirmableCall {
+    tool: string;
+    settle: (outcome: ConfirmableOutcome<any>) => void;
+    fail: (error: unknown) => void;
+}
+
+interface HeldTransaction {
+    call: ConfirmableCall;
+    action: string;
+    expiresAt: number; // Epoch milliseconds
+    approve: () => void;
+    reject: (error: ToolError) => void;
+}
+
+const confirmableCalls = new AsyncLocalStorage<ConfirmableCall>();
+
+// Held transactions are only kept in memory, so restarting the server discards them
+const heldTransactions = new Map<string, HeldTransaction>();
+const expiredTransactions = new Map<string, { action: string; expiresAt: number }>();
+
+export function setConfirmationProvider(provider: ConfirmationProvider) {
+    confirmationProvider = provider;
+}
+
+/**
+ * Runs a tool call so that a transaction it holds for confirmation suspends it instead of failing it.
+ * Resolves with the call's result, or with the summary of the first held transaction while the call waits.
+ */
+export function runConfirmable<T>(tool: string, task: () => Promise<T>): Promise<ConfirmableOutcome<T>> {
+    return new Promise((resolve, reject) => {
+        const call: ConfirmableCall = { tool, settle: resolve, fail: reject };
+        confirmableCalls.run(call, task).then(
+            (result) => call.settle({ status: 'done', result }),
+            (error) => call.fail(error)
+        );
+    });
+}
+
+/**
+ * Approves a held transaction and resumes the tool call that holds it. Resolves with what the call does next:
+ * finish with its own result, or hold another transaction, such as the next leg of a swap. A tool the spending
+ * policy disabled in the meantime discards the transaction instead.
+ */
+export async function resumeHeldTransaction(token: string): Promise<ConfirmableOutcome<unknown>> {
+    const held = heldTransactions.get(token);
+    if (!held) {
+        const expired = expiredTransactions.get(token);
+        if (expired) {
+            throw new ToolError('CONFIRMATION_EXPIRED',
+                `The confirmation of the ${expired.action} expired at ${new Date(expired.expiresAt).toISOString()}. Run the tool again to prepare it anew.`);
+        }
+        throw new ToolError('UNKNOWN_CONFIRMATION',
+            `No prepared transaction has the token ${token}. It may have been confirmed already or been discarded by a server restart.`);
+    }
+    heldTransactions.delete(token);
+
+    try {
+        await assertToolEnabled(held.call.tool);
+    } catch (error: any) {
+        held.reject(error);
+        throw error;
+    }
+
+    const outcome = new Promise<ConfirmableOutcome<unknown>>((resolve, reject) => {
+        held.call.settle = resolve;
+        held.call.fail = reject;
+    });
+    held.approve();
+    return outcome;
+}
+
+function describeMsg(msg: any): string {
+    const data = typeof msg.toWeb3 === 'function' ? msg.toWeb3() : msg;
+    return JSON.stringify(data, (_key, value) => {
+        if (value instanceof Uint8Array) {
+            return `<${value.length} bytes>`;
+        }
+        if (typeof value === 'string' && value.length > MAX_SUMMARY_FIELD_LENGTH) {
+            return `${value.slice(0, MAX_SUMMARY_FIELD_LENGTH)}... (${value.length} characters)`;
+        }
+        return value;
+    }, 2);
+}
+
+async function summarizeTransaction(
+    network: NetworkContext,
+    privateKey: PrivateKey,
+    msgs: any[],
+    action: string,
+    spend: Coin[],
+    fee: { amount: Coin[]; gas: string },
+    reasons: string[]
+): Promise<string> {
+    const spent = await toTransactionFees(network, spend);
+    const fees = await toTransactionFees(network, fee.amount);
+    const messages = msgs.map((msg, index) => `${index + 1}. ${describeMsg(msg)}`);
+
+    return `Prepared ${action} on ${network.name}\n` +
+        `From: ${privateKey.toBech32()}\n` +
+        `Needs Confirmation Because: ${reasons.join('; ')}\n` +
+        `${spent.length > 0 ? `Spends: ${spent.map((coin) => `${coin.amount} ${coin.symbol}`).join(', ')}\n` : ''}` +
+        `Fee: ${fees.map((coin) => `${coin.amount} ${coin.symbol}`).join(', ')} (gas limit ${fee.gas})\n\n` +
+        `Messages:\n${messages.join('\n')}`;
+}
+
+/**
+ * Holds back a transaction the spending policy wants confirmed. The connected client is asked directly when it can be;
+ * otherwise the tool call is suspended here, reports the summary and a token, and carries on once confirm-transaction
+ * approves it, so whatever the tool does after broadcasting still happens. Resolves to true when a human approved
+ * the transaction, which may have taken a while, or false when it needed no confirmation.
+ */
+export async function requireConfirmation(
+    network: NetworkContext,
+    privateKey: PrivateKey,
+    msgs: any[],
+    action: string,
+    spend: Coin[], // What the spending policy counts, wherever it is taken from
+    fee: { amount: Coin[]; gas: string }
+): Promise<boolean> {
+    const call = confirmableCalls.getStore();
+    const reasons = await findConfirmationReasons(network, spend, call?.tool);
+    if (reasons.length === 0) {
+        return false;
+    }
+
+    const summary = await summarizeTransaction(network, privateKey, msgs, action, spend, fee, reasons);
+    const approved = confirmationProvider ? await confirmationProvider(summary) : undefined;
+    if (approved === true) {
+        return true;
+    }
+    if (approved === false) {
+        throw new ToolError('TRANSACTION_REJECTED', `The ${action} was rejected. Nothing was signed.`);
+    }
+
+    if (!call) {
+        throw new ToolError('CONFIRMATION_UNAVAILABLE', `The ${action} needs confirmation, but nothing can hold it until it is confirmed`);
+    }
+
+    for (const [token, expired] of expiredTransactions) {
+        if (expired.expiresAt < Date.now() - EXPIRED_TOKEN_RETENTION_MS) {
+            expiredTransactions.delete(token);
+        }
+    }
+
+    const { confirmation } = await loadPolicy();
+    const ttlSeconds = confirmation?.ttlSeconds ?? 300;
+    const token = randomUUID();
+    const expiresAt = Date.now() + ttlSeconds * 1000;
+
+    const approval = new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => {
+            heldTransactions.delete(token);
+            expiredTransactions.set(token, { action, expiresAt });
+            reject(new ToolError('CONFIRMATION_EXPIRED', `The ${action} was not confirmed before ${new Date(expiresAt).toISOString()}. Nothing was signed.`));
+        }, ttlSeconds * 1000);
+        // A held transaction must not keep the server running after its client went away
+        timer.unref();
+
+        heldTransactions.set(token, {
+            call,
+            action,
+            expiresAt,
+            approve: () => {
+                clearTimeout(timer);
+                resolve();
+            },
+            reject: (error) => {
+                clearTimeout(timer);
+                reject(error);
+            }
+        });
+    });
+
+    call.settle({
+        status: 'held',
+        summary: `${summary}\n\nConfirmation Token: ${token}\nExpires: ${new Date(expiresAt).toISOString()} (in ${ttlSeconds}s)\n\n` +
+            'Nothing has been signed yet. Call confirm-transaction with this token to sign and broadcast it.'
+    });
+    await approval;
+    return true;
+}
@@ -0,0 +1,482 @@
+import type { PrivateKey } from '@injectivelabs/sdk-ts';
+import { BigNumber } from '@injectivelabs/utils';
+import { fromBaseUnits } from './amounts.js';
+import { broadcastMsgs } from './broadcast.js';
+import type { BroadcastResult } from './broadcast.js';
+import { ToolError } from './errors.js';
+import { normalizeOrderbook } from './markets.js';
+import type { OrderbookLevel, SpotOrderbook } from './markets.js';
+import type { NetworkContext } from './network.js';
+import { quantizePrice, quantizeQuantity } from './rules.js';
+import { toSubaccountId } from './subaccounts.js';
+import { getTokenMetadata } from './tokens.js';
+
+/**
+ * Perpetual market fields used by the derivative tools. Prices, tick sizes and notionals are chain format
+ * (quote base units per contract); quantities are in contracts and need no conversion.
+ */
+export interface DerivativeMarketInfo {
+    marketId: string;
+    ticker: string;
+    quoteDenom: string;
+    oracleBase: string;
+    oracleQuote: string;
+    oracleType: string;
+    oracleScaleFactor: number;
+    initialMarginRatio: string;
+    maintenanceMarginRatio: string;
+    makerFeeRate: string;
+    takerFeeRate: string;
+    minPriceTickSize: string;
+    minQuantityTickSize: string;
+    minNotional: string;
+    hourlyFundingRateCap: string;
+    nextFundingTimestamp: number; // Unix seconds
+}
+
+/**
+ * Market data for one perpetual in human units
+ */
+export interface DerivativeMarketSummary {
+    marketId: string;
+    ticker: string;
+    quoteDenom: string;
+    markPrice: string;
+    lastFundingRate: string | null; // Percent per hour, null when the market has not funded yet
+    hourlyFundingRateCap: string; // Percent per hour
+    nextFundingTime: string | null;
+    maxLeverage: string;
+    initialMarginRatio: string;
+    maintenanceMarginRatio: string;
+    makerFeeRate: string;
+    takerFeeRate: string;
+    minPriceTickSize: string;
+    minQuantityTickSize: string;
+}
+
+/**
+ * An open position in human units
+ */
+export interface DerivativePosition {
+    marketId: string;
+    ticker: string;
+    direction: 'long' | 'short';
+    quantity: string;
+    entryPrice: string;
+    markPrice: string;
+    liquidationPrice: string;
+    margin: string;
+    unrealizedPnl: string;
+    effectiveLeverage: string;
+}
+
+export interface OpenPositionRequest {
+    market: string; // Market id or ticker
+    direction: 'long' | 'short';
+    quantity: string; // Contracts
+    leverage: number;
+    slippage: number; // Percent
+    subaccountIndex?: number; // Default subaccount when omitted
+}
+
+export interface OpenedPosition {
+    marketId: string;
+    ticker: string;
+    direction: 'long' | 'short';
+    quantity: string;
+    averagePrice: string;
+    worstPrice: string; // Limit price sent with the order, after slippage
+    margin: string;
+    leverage: string;
+    estimatedLiquidationPrice: string;
+    tx: BroadcastResult;
+}
+
+export interface ReducedPosition {
+    marketId: string;
+    ticker: string;
+    direction: 'long' | 'short';
+    closedQuantity: string;
+    remainingQuantity: string;
+    averagePrice: string;
+    worstPrice: string;
+    estimatedRealizedPnl: string;
+    tx: BroadcastResult;
+}
+
+function toDerivativeMarketInfo(market: any): DerivativeMarketInfo {
+    return {
+        marketId: market.marketId,
+        ticker: market.ticker || '',
+        quoteDenom: market.quoteDenom,
+        oracleBase: market.oracleBase,
+        oracleQuote: market.oracleQuote,
+        oracleType: market.oracleType,
+        oracleScaleFactor: market.oracleScaleFactor ?? 0,
+        initialMarginRatio: String(market.initialMarginRatio ?? '0'),
+        maintenanceMarginRatio: String(market.maintenanceMarginRatio ?? '0'),
+        makerFeeRate: String(market.makerFeeRate ?? '0'),
+        takerFeeRate: String(market.takerFeeRate ?? '0'),
+        minPriceTickSize: new BigNumber(market.minPriceTickSize ?? 0).toFixed(),
+        minQuantityTickSize: new BigNumber(market.minQuantityTickSize ?? 0).toFixed(),
+        minNotional: new BigNumber(market.minNotional ?? 0).toFixed(),
+        hourlyFundingRateCap: String(market.perpetualMarketInfo?.hourlyFundingRateCap ?? '0'),
+        nextFundingTimestamp: market.perpetualMarketInfo?.nextFundingTimestamp ?? 0
+    };
+}
+
+/**
+ * Fetches all active perpetual markets from the indexer
+ */
+export async function fetchPerpetualMarkets(network: NetworkContext): Promise<DerivativeMarketInfo[]> {
+    const { IndexerGrpcDerivativesApi } = await import('@injectivelabs/sdk-ts');
+    const indexerGrpcDerivativesApi = new IndexerGrpcDerivativesApi(network.endpoints.indexer);
+
+    let markets: any[];
+    try {
+        markets = await indexerGrpcDerivativesApi.fetchMarkets({ marketStatus: 'active' });
+    } catch (error: any) {
+        throw new ToolError('MARKETS_UNAVAILABLE', `Failed to fetch derivative markets from ${network.name}: ${error.message}`);
+    }
+
+    return markets.filter((market) => market.isPerpetual).map(toDerivativeMarketInfo);
+}
+
+/**
+ * Resolves a perpetual market from its id (0x...) or its ticker (e.g. INJ/USDT PERP, case-insensitive)
+ */
+export async function resolvePerpetualMarket(network: NetworkContext, market: string): Promise<DerivativeMarketInfo> {
+    const markets = await fetchPerpetualMarkets(network);
+    const wanted = market.toUpperCase();
+    const match = markets.find((m) => m.marketId === market) ??
+        markets.find((m) => m.ticker.toUpperCase() === wanted) ??
+        // Let "INJ/USDT" find "INJ/USDT PERP"
+        markets.find((m) => m.ticker.toUpperCase() === `${wanted} PERP`);
+
+    if (!match) {
+        throw new ToolError('MARKET_NOT_FOUND', `No active perpetual market ${market} on ${network.name}`);
+    }
+    return match;
+}
+
+/**
+ * Fetches a derivative orderbook; prices are chain format and quantities are contracts
+ */
+export async function fetchDerivativeOrderbook(network: NetworkContext, marketId: string): Promise<SpotOrderbook> {
+    const { IndexerGrpcDerivativesApi } = await import('@injectivelabs/sdk-ts');
+    const indexerGrpcDerivativesApi = new IndexerGrpcDerivativesApi(network.endpoints.indexer);
+
+    try {
+        return normalizeOrderbook(await indexerGrpcDerivativesApi.fetchOrderbookV2(marketId));
+    } catch (error: any) {
+        throw new ToolError('ORDERBOOK_UNAVAILABLE', `Failed to fetch orderbook for market ${marketId}: ${error.message}`);
+    }
+}
+
+/**
+ * Reads the oracle (mark) price of a perpetual market in human units
+ */
+export async function fetchMarkPrice(network: NetworkContext, market: DerivativeMarketInfo): Promise<string> {
+    const { IndexerGrpcOracleApi } = await import('@injectivelabs/sdk-ts');
+    const indexerGrpcOracleApi = new IndexerGrpcOracleApi(network.endpoints.indexer);
+
+    try {
+        const response = await indexerGrpcOracleApi.fetchOraclePrice({
+            baseSymbol: market.oracleBase,
+            quoteSymbol: market.oracleQuote,
+            oracleType: market.oracleType,
+            oracleScaleFactor: market.oracleScaleFactor
+        });
+        return new BigNumber(response.price).toFixed();
+    } catch (error: any) {
+        throw new ToolError('ORACLE_UNAVAILABLE', `Failed to fetch the mark price of ${market.ticker || market.marketId}: ${error.message}`);
+    }
+}
+
+function toPercent(rate: string | BigNumber): string {
+    return new BigNumber(rate).times(100).toFixed();
+}
+
+/**
+ * Collects mark price, funding and margin parameters for a perpetual market
+ */
+export async function getDerivativeMarketSummary(network: NetworkContext, market: DerivativeMarketInfo): Promise<DerivativeMarketSummary> {
+    const { IndexerGrpcDerivativesApi } = await import('@injectivelabs/sdk-ts');
+    const indexerGrpcDerivativesApi = new IndexerGrpcDerivativesApi(network.endpoints.indexer);
+    const { decimals: quoteDecimals } = await getTokenMetadata(market.quoteDenom, network);
+
+    let lastFundingRate: string | null = null;
+    try {
+        const { fundingRates } = await indexerGrpcDerivativesApi.fetchFundingRates({
+            marketId: market.marketId,
+            pagination: { limit: 1 }
+        });
+        lastFundingRate = fundingRates.length > 0 ? toPercent(fundingRates[0].rate) : null;
+    } catch (error: any) {
+        throw new ToolError('FUNDING_UNAVAILABLE', `Failed to fetch funding rates of ${market.ticker || market.marketId}: ${error.message}`);
+    }
+
+    return {
+        marketId: market.marketId,
+        ticker: market.ticker,
+        quoteDenom: market.quoteDenom,
+        markPrice: await fetchMarkPrice(network, market),
+        lastFundingRate,
+        hourlyFundingRateCap: toPercent(market.hourlyFundingRateCap),
+        nextFundingTime: market.nextFundingTimestamp > 0 ? new Date(market.nextFundingTimestamp * 1000).toISOString() : null,
+        maxLeverage: maxLeverage(market).toFixed(2),
+        initialMarginRatio: market.initialMarginRatio,
+        maintenanceMarginRatio: market.maintenanceMarginRatio,
+        makerFeeRate: market.makerFeeRate,
+        takerFeeRate: market.takerFeeRate,
+        minPriceTickSize: fromBaseUnits(market.minPriceTickSize, quoteDecimals),
+        minQuantityTickSize: market.minQuantityTickSize
+    };
+}
+
+/**
+ * Highest leverage the market's initial margin ratio allows
+ */
+export function maxLeverage(market: DerivativeMarketInfo): BigNumber {
+    const initialMarginRatio = new BigNumber(market.initialMarginRatio);
+    return initialMarginRatio.gt(0) ? new BigNumber(1).div(initialMarginRatio) : new BigNumber(Infinity);
+}
+
+/**
+ * Lists the open positions of one of an address's subaccounts, the default one unless given, optionally for one market, in human units
+ */
+export async function listPositions(
+    network: NetworkContext,
+    address: string,
+    market?: DerivativeMarketInfo,
+    subaccountIndex: number = 0
+): Promise<DerivativePosition[]> {
+    const { IndexerGrpcDerivativesApi } = await import('@injectivelabs/sdk-ts');
+    const indexerGrpcDerivativesApi = new IndexerGrpcDerivativesApi(network.endpoints.indexer);
+
+    let response;
+    try {
+        response = await indexerGrpcDerivativesApi.fetchPositionsV2({
+            subaccountId: await toSubaccountId(address, subaccountIndex),
+            marketId: market?.marketId
+        });
+    } catch (error: any) {
+        throw new ToolError('POSITIONS_UNAVAILABLE', `Failed to fetch positions from ${network.name}: ${error.message}`);
+    }
+
+    const positions: DerivativePosition[] = [];
+    for (const position of response.positions) {
+        const { decimals: quoteDecimals } = await getTokenMetadata(position.denom, network);
+        const quantity = new BigNumber(position.quantity);
+        const entryPrice = new BigNumber(position.entryPrice);
+        const markPrice = new BigNumber(position.markPrice);
+        const margin = new BigNumber(position.margin);
+        const isLong = position.direction === 'long';
+        const pnl = (isLong ? markPrice.minus(entryPrice) : entryPrice.minus(markPrice)).times(quantity);
+
+        positions.push({
+            marketId: position.marketId,
+            ticker: position.ticker,
+            direction: isLong ? 'long' : 'short',
+            quantity: quantity.toFixed(),
+            entryPrice: fromBaseUnits(entryPrice, quoteDecimals),
+            markPrice: fromBaseUnits(markPrice, quoteDecimals),
+            liquidationPrice: fromBaseUnits(position.liquidationPrice, quoteDecimals),
+            margin: fromBaseUnits(margin, quoteDecimals),
+            unrealizedPnl: fromBaseUnits(pnl.decimalPlaces(0, BigNumber.ROUND_DOWN), quoteDecimals),
+            effectiveLeverage: margin.gt(0) ? markPrice.times(quantity).div(margin).toFixed(2) : '0'
+        });
+    }
+    return positions;
+}
+
+/**
+ * Walks orderbook levels for a quantity of contracts, returning the notional and the deepest price reached
+ */
+function walkContracts(levels: OrderbookLevel[], quantity: BigNumber) {
+    let remaining = quantity;
+    let notional = new BigNumber(0);
+    let worstPrice = new BigNumber(0);
+
+    for (const level of levels) {
+        if (remaining.lte(0)) {
+            break;
+        }
+        const fill = BigNumber.min(remaining, level.quantity);
+        notional = notional.plus(fill.times(level.price));
+        remaining = remaining.minus(fill);
+        worstPrice = new BigNumber(level.price);
+    }
+
+    return { filled: quantity.minus(remaining), notional, worstPrice };
+}
+
+/**
+ * Prices a market order of `quantity` contracts against the orderbook and applies the slippage tolerance
+ */
+async function priceMarketOrder(network: NetworkContext, market: DerivativeMarketInfo, side: 'buy' | 'sell', quantity: BigNumber, slippage: number) {
+    const orderbook = await fetchDerivativeOrderbook(network, market.marketId);
+    const levels = side === 'buy' ? orderbook.sells : orderbook.buys;
+    if (levels.length === 0) {
+        throw new ToolError('EMPTY_ORDERBOOK', `No ${side === 'buy' ? 'sell' : 'buy'} orders in the ${market.ticker || market.marketId} orderbook`);
+    }
+
+    const fill = walkContracts(levels, quantity);
+    if (fill.filled.lt(quantity)) {
+        throw new ToolError('INSUFFICIENT_LIQUIDITY',
+            `Orderbook for ${market.ticker || market.marketId} can only fill ${fill.filled.toFixed()} of ${quantity.toFixed()} contracts`);
+    }
+
+    const limitPrice = quantizePrice(fill.worstPrice.times(side === 'buy' ? 1 + slippage / 100 : 1 - slippage / 100), side, market);
+    // A sell widened by 100% slippage, or one below the price tick, has no price the chain accepts
+    if (limitPrice.lte(0)) {
+        throw new ToolError('INVALID_SLIPPAGE',
+            `Slippage of ${slippage}% leaves no positive worst price for a ${side} on ${market.ticker || market.marketId}; use a lower slippage`);
+    }
+    return {
+        averagePrice: fill.notional.div(quantity),
+        worstPrice: limitPrice
+    };
+}
+
+/**
+ * Opens or increases a perpetual position with a market order, posting price × quantity / leverage as margin.
+ * Leverage is capped by the market's initial margin ratio.
+ */
+export async function openPosition(network: NetworkContext, privateKey: PrivateKey, request: OpenPositionRequest): Promise<OpenedPosition> {
+    const { MsgCreateDerivativeMarketOrder, OrderTypeMap } = await import('@injectivelabs/sdk-ts');
+
+    const market = await resolvePerpetualMarket(network, request.market);
+    const label = market.ticker || market.marketId;
+    const { decimals: quoteDecimals, symbol: quoteSymbol } = await getTokenMetadata(market.quoteDenom, network);
+
+    const leverage = new BigNumber(request.leverage);
+    if (leverage.gt(maxLeverage(market))) {
+        throw new ToolError('LEVERAGE_TOO_HIGH',
+            `Leverage ${leverage.toFixed()}x exceeds the maximum of ${maxLeverage(market).toFixed(2)}x on ${label}`);
+    }
+
+    const quantity = quantizeQuantity(request.quantity, market);
+    if (quantity.lte(0)) {
+        throw new ToolError('QUANTITY_BELOW_TICK',
+            `Quantity ${request.quantity} is below the minimum quantity tick of ${label} (${market.minQuantityTickSize} contracts)`);
+    }
+
+    const side = request.direction === 'long' ? 'buy' : 'sell';
+    const { averagePrice, worstPrice } = await priceMarketOrder(network, market, side, quantity, request.slippage);
+
+    const notional = worstPrice.times(quantity);
+    if (notional.lt(market.minNotional)) {
+        throw new ToolError('BELOW_MIN_NOTIONAL',
+            `Order value of ${fromBaseUnits(notional.decimalPlaces(0, BigNumber.ROUND_DOWN), quoteDecimals)} ${quoteSymbol} ` +
+            `is below the minimum notional of ${label} (${fromBaseUnits(market.minNotional, quoteDecimals)} ${quoteSymbol})`);
+    }
+
+    // Margin is checked by the chain against the order's limit price, so size it from there
+    const margin = notional.div(leverage).decimalPlaces(0, BigNumber.ROUND_UP);
+
+    // Liquidation happens once the margin left after losses falls to the maintenance margin at that price
+    const maintenanceMarginRatio = new BigNumber(market.maintenanceMarginRatio);
+    const entryNotional = averagePrice.times(quantity);
+    const liquidationPrice = request.direction === 'long'
+        ? entryNotional.minus(margin).div(quantity.times(new BigNumber(1).minus(maintenanceMarginRatio)))
+        : entryNotional.plus(margin).div(quantity.times(maintenanceMarginRatio.plus(1)));
+
+    const injectiveAddress = privateKey.toBech32();
+    const orderMsg = MsgCreateDerivativeMarketOrder.fromJSON({
+        injectiveAddress,
+        marketId: market.marketId,
+        subaccountId: await toSubaccountId(injectiveAddress, request.subaccountIndex),
+        feeRecipient: injectiveAddress,
+        orderType: side === 'buy' ? OrderTypeMap.BUY : OrderTypeMap.SELL,
+        price: worstPrice.toFixed(),
+        margin: margin.toFixed(),
+        quantity: quantity.toFixed()
+    });
+
+    // The margin and the taker fee come from the bank balance only for the default subaccount,
+    // but the spending policy counts them whichever subaccount pays
+    const spend = [{ denom: market.quoteDenom, amount: margin.plus(notional.times(market.takerFeeRate)).integerValue(BigNumber.ROUND_UP).toFixed() }];
+
+    const tx = await broadcastMsgs(network, privateKey, [orderMsg], `${request.direction} order on ${label}`,
+        { spend: (request.subaccountIndex ?? 0) === 0 ? spend : [], policySpend: spend });
+
+    return {
+        marketId: market.marketId,
+        ticker: market.ticker,
+        direction: request.direction,
+        quantity: quantity.toFixed(),
+        averagePrice: fromBaseUnits(averagePrice, quoteDecimals),
+        worstPrice: fromBaseUnits(worstPrice, quoteDecimals),
+        margin: fromBaseUnits(margin, quoteDecimals),
+        leverage: leverage.toFixed(),
+        estimatedLiquidationPrice: fromBaseUnits(BigNumber.max(liquidationPrice, 0).decimalPlaces(0, BigNumber.ROUND_HALF_UP), quoteDecimals),
+        tx
+    };
+}
+
+/**
+ * Reduces a perpetual position with a reduce-only market order (no margin), closing it when quantity is omitted
+ */
+export async function reducePosition(
+    network: NetworkContext,
+    privateKey: PrivateKey,
+    marketName: string,
+    quantity: string | undefined,
+    slippage: number,
+    subaccountIndex: number = 0
+): Promise<ReducedPosition> {
+    const { MsgCreateDerivativeMarketOrder, OrderTypeMap } = await import('@injectivelabs/sdk-ts');
+
+    const market = await resolvePerpetualMarket(network, marketName);
+    const label = market.ticker || market.marketId;
+    const { decimals: quoteDecimals } = await getTokenMetadata(market.quoteDenom, network);
+    const injectiveAddress = privateKey.toBech32();
+
+    const [position] = await listPositions(network, injectiveAddress, market, subaccountIndex);
+    if (!position) {
+        throw new ToolError('NO_POSITION', `No open position on ${label} for ${injectiveAddress} in subaccount ${subaccountIndex}`);
+    }
+
+    const positionQuantity = new BigNumber(position.quantity);
+    // A full close uses the exact position size, which is already on the quantity tick
+    const closeQuantity = quantity === undefined ? positionQuantity : quantizeQuantity(quantity, market);
+    if (closeQuantity.lte(0)) {
+        throw new ToolError('QUANTITY_BELOW_TICK',
+            `Quantity ${quantity} is below the minimum quantity tick of ${label} (${market.minQuantityTickSize} contracts)`);
+    }
+    if (closeQuantity.gt(positionQuantity)) {
+        throw new ToolError('INVALID_ORDER', `Cannot reduce ${closeQuantity.toFixed()} contracts of a ${position.quantity} contract position on ${label}`);
+    }
+
+    const side = position.direction === 'long' ? 'sell' : 'buy';
+    const { averagePrice, worstPrice } = await priceMarketOrder(network, market, side, closeQuantity, slippage);
+
+    const entryPrice = new BigNumber(position.entryPrice).shiftedBy(quoteDecimals);
+    const pnl = (position.direction === 'long' ? averagePrice.minus(entryPrice) : entryPrice.minus(averagePrice)).times(closeQuantity);
+
+    const orderMsg = MsgCreateDerivativeMarketOrder.fromJSON({
+        injectiveAddress,
+        marketId: market.marketId,
+        subaccountId: await toSubaccountId(injectiveAddress, subaccountIndex),
+        feeRecipient: injectiveAddress,
+        orderType: side === 'buy' ? OrderTypeMap.BUY : OrderTypeMap.SELL,
+        price: worstPrice.toFixed(),
+        margin: '0', // Zero margin makes the order reduce-only
+        quantity: closeQuantity.toFixed()
+    });
+
+    const tx = await broadcastMsgs(network, privateKey, [orderMsg], `reduce order on ${label}`);
+
+    return {
+        marketId: market.marketId,
+        ticker: market.ticker,
+        direction: position.direction,
+        closedQuantity: closeQuantity.toFixed(),
+        remainingQuantity: positionQuantity.minus(closeQuantity).toFixed(),
+        averagePrice: fromBaseUnits(averagePrice, quoteDecimals),
+        worstPrice: fromBaseUnits(worstPrice, quoteDecimals),
+        estimatedRealizedPnl: fromBaseUnits(pnl.decimalPlaces(0, BigNumber.ROUND_DOWN), quoteDecimals),
+        tx
+    };
+}
@@ -0,0 +1,14 @@
+/**
+ * Error with a stable machine-readable code, reported to MCP clients as a structured isError result
+ */
+export class ToolError extends Error {
+    code: string;
+    details?: Record<string, unknown>;
+
+    constructor(code: string, message: string, details?: Record<string, unknown>) {
+        super(message);
+        this.name = 'ToolError';
+        this.code = code;
+        this.details = details;
+    }
+}
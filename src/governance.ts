@@ -0,0 +1,97 @@
+import type { PrivateKey } from '@injectivelabs/sdk-ts';
+import { broadcastMsgs } from './broadcast.js';
+import { ToolError } from './errors.js';
+import type { NetworkContext } from './network.js';
+
+export type ProposalStatusFilter = 'deposit' | 'voting' | 'passed' | 'rejected' | 'failed';
+export type VoteChoice = 'yes' | 'no' | 'abstain' | 'no_with_veto';
+
+export interface ProposalSummary {
+    proposalId: number;
+    title: string;
+    summary: string;
+    type: string;
+    status: string;
+    submitTime: string;
+    votingEndTime: string | null;
+}
+
+// Values of cosmos.gov.v1 ProposalStatus and VoteOption
+const PROPOSAL_STATUSES: Record<ProposalStatusFilter, number> = {
+    deposit: 1,
+    voting: 2,
+    passed: 3,
+    rejected: 4,
+    failed: 5
+};
+const VOTE_OPTIONS: Record<VoteChoice, number> = {
+    yes: 1,
+    abstain: 2,
+    no: 3,
+    no_with_veto: 4
+};
+
+function statusName(status: number): string {
+    return Object.entries(PROPOSAL_STATUSES).find(([, value]) => value === status)?.[0] ?? 'unknown';
+}
+
+function toProposalSummary(proposal: any): ProposalSummary {
+    return {
+        proposalId: proposal.proposalId,
+        title: proposal.title,
+        summary: proposal.summary,
+        type: proposal.type,
+        status: statusName(proposal.status),
+        submitTime: new Date(proposal.submitTime * 1000).toISOString(),
+        votingEndTime: proposal.votingEndTime > 0 ? new Date(proposal.votingEndTime * 1000).toISOString() : null
+    };
+}
+
+/**
+ * Lists governance proposals with the given status, newest first
+ */
+export async function listProposals(network: NetworkContext, status: ProposalStatusFilter = 'voting', limit: number = 20): Promise<ProposalSummary[]> {
+    const { ChainGrpcGovApi } = await import('@injectivelabs/sdk-ts');
+    const chainGrpcGovApi = new ChainGrpcGovApi(network.endpoints.grpc);
+
+    try {
+        const { proposals } = await chainGrpcGovApi.fetchProposals({
+            status: PROPOSAL_STATUSES[status],
+            pagination: { limit, reverse: true }
+        });
+        return proposals.map(toProposalSummary);
+    } catch (error: any) {
+        throw new ToolError('PROPOSALS_UNAVAILABLE', `Failed to fetch proposals from ${network.name}: ${error.message}`);
+    }
+}
+
+/**
+ * Votes on a proposal that is in its voting period
+ */
+export async function vote(network: NetworkContext, privateKey: PrivateKey, proposalId: number, choice: VoteChoice, metadata?: string) {
+    const { ChainGrpcGovApi, MsgVote } = await import('@injectivelabs/sdk-ts');
+    const chainGrpcGovApi = new ChainGrpcGovApi(network.endpoints.grpc);
+
+    let proposal;
+    try {
+        proposal = await chainGrpcGovApi.fetchProposal(proposalId);
+    } catch (error: any) {
+        throw new ToolError('PROPOSAL_NOT_FOUND', `Failed to fetch proposal ${proposalId} from ${network.name}: ${error.message}`);
+    }
+    if (!proposal) {
+        throw new ToolError('PROPOSAL_NOT_FOUND', `Proposal ${proposalId} not found on ${network.name}`);
+    }
+    if (proposal.status !== PROPOSAL_STATUSES.voting) {
+        throw new ToolError('PROPOSAL_NOT_IN_VOTING', `Proposal ${proposalId} is not in its voting period (status: ${statusName(proposal.status)})`);
+    }
+
+    const msg = MsgVote.fromJSON({
+        proposalId,
+        voter: privateKey.toBech32(),
+        vote: VOTE_OPTIONS[choice],
+        metadata
+    });
+    const tx = await broadcastMsgs(network, privateKey, [msg], `vote on proposal ${proposalId}`);
+
+    return { tx, proposal: toProposalSummary(proposal) };
+}
@@ -6,15 +6,77 @@ import {
     CallToolRequestSchema,
     ListToolsRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import * as fs from 'fs/promises';
-import path from 'path';
-import os from 'os';
-
-// Storage setup
-const homeDir = os.homedir();
-const documentsDir = path.join(homeDir, 'Documents');
-const walletFilePath = path.join(documentsDir, "injective_wallet.json");
+import type { PrivateKey } from '@injectivelabs/sdk-ts';
+import { BigNumber } from '@injectivelabs/utils';
+import { resolveNetwork } from './network.js';
+import { AmountSchema, fromBaseUnits, toBaseUnits } from './amounts.js';
+import { batchTransfer, isAccountAddress, MAX_BATCH_TRANSFERS, parseTransferCsv } from './batch.js';
+import { broadcastMsgs, estimateFee, findShortfalls } from './broadcast.js';
+import type { BroadcastResult, FeeEstimate, FeeOptions } from './broadcast.js';
+import { resumeHeldTransaction, runConfirmable, setConfirmationProvider } from './confirmation.js';
+import { ToolError } from './errors.js';
+import { assertQuoteExecutable, quoteMarketSwap } from './quote.js';
+import type { SwapQuote } from './quote.js';
+import {
+    fetchPerpetualMarkets,
+    getDerivativeMarketSummary,
+    listPositions,
+    maxLeverage,
+    openPosition,
+    reducePosition,
+    resolvePerpetualMarket
+} from './derivatives.js';
+import { listProposals, vote } from './governance.js';
+import { getOrderbook, getRecentTrades, getTicker, listMarkets } from './marketdata.js';
+import { batchCancelSpotOrders, cancelSpotOrder, listOpenSpotOrders, placeSpotLimitOrder } from './orders.js';
+import { getPortfolio } from './portfolio.js';
+import { assertSlippageAllowed, assertToolEnabled } from './policy.js';
+import { burnToken, changeTokenAdmin, listCreatedTokens, mintToken, updateTokenMetadata } from './tokenfactory.js';
+import {
+    depositToSubaccount,
+    fetchSubaccountAvailableBalance,
+    listSubaccounts,
+    MAX_SUBACCOUNT_INDEX,
+    toSubaccountId,
+    transferBetweenSubaccounts,
+    withdrawFromSubaccount
+} from './subaccounts.js';
+import { getTransaction, getTransactionHistory } from './transactions.js';
+import {
+    deployCw20,
+    executeContract,
+    instantiateContract,
+    migrateContract,
+    queryContractSmart,
+    storeCode,
+    transferCw20
+} from './wasm.js';
+import type { TransactionEvent } from './transactions.js';
+import type { PortfolioBalance } from './portfolio.js';
+import { findBestRoute } from './router.js';
+import { claimRewards, delegate, getStakingPosition, listValidators, redelegate, undelegate } from './staking.js';
+import { prepareSpotOrder } from './rules.js';
+import type { RouteQuote, SwapLegResult } from './router.js';
+import { cacheTokenMetadata, getTokenMetadata, normalizeDenom } from './tokens.js';
+import type { NetworkContext } from './network.js';
+import {
+    checkWalletExists,
+    deriveAccount,
+    findWalletByAddress,
+    getAccount,
+    getActiveAccount,
+    getWalletAddress,
+    listWallets,
+    loadPrivateKey,
+    parseWalletSecret,
+    removeWallet,
+    saveWallet,
+    selectWallet,
+    setPassphraseProvider,
+    DEFAULT_WALLET_NAME
+} from './wallet.js';
 
 // Create server instance
 const server = new Server(
@@ -29,43 +91,683 @@ const server = new Server(
     }
 );
 
+// Ask for the keystore passphrase through elicitation when the client supports it
+setPassphraseProvider(async (message) => {
+    if (!server.getClientCapabilities()?.elicitation) {
+        return undefined;
+    }
+
+    const result = await server.elicitInput({
+        message,
+        requestedSchema: {
+            type: "object",
+            properties: {
+                passphrase: {
+                    type: "string",
+                    title: "Keystore passphrase",
+                    description: "Passphrase used to encrypt the Injective wallet keystore",
+                },
+            },
+            required: ["passphrase"],
+        },
+    });
+
+    if (result.action !== "accept" || typeof result.content?.passphrase !== "string") {
+        return undefined;
+    }
+    return result.content.passphrase;
+});
+
+// Ask a human to approve transactions above the confirmation thresholds through elicitation when the client supports it
+setConfirmationProvider(async (summary) => {
+    if (!server.getClientCapabilities()?.elicitation) {
+        return undefined;
+    }
+
+    const result = await server.elicitInput({
+        message: `Sign and broadcast this transaction?\n\n${summary}`,
+        requestedSchema: {
+            type: "object",
+            properties: {
+                approve: {
+                    type: "boolean",
+                    title: "Approve transaction",
+                    description: "Sign and broadcast the transaction described above",
+                },
+            },
+            required: ["approve"],
+        },
+    });
+
+    return result.action === "accept" && result.content?.approve === true;
+});
+
 // Define Zod schemas for validation
+const WalletNameSchema = z.string().regex(/^[A-Za-z0-9_-]+$/, "Wallet names may only contain letters, digits, '_' and '-'");
+
+const CreateWalletSchema = z.object({
+    name: WalletNameSchema.default(DEFAULT_WALLET_NAME)
+});
+
+const SelectWalletSchema = z.object({
+    name: WalletNameSchema,
+    accountIndex: z.number().int().min(0).default(0)
+});
+
+const DeriveAccountSchema = z.object({
+    wallet: WalletNameSchema.optional(),
+    index: z.number().int().min(0).optional()
+});
+
+const RemoveWalletSchema = z.object({
+    name: WalletNameSchema,
+    confirm: z.literal(true, { errorMap: () => ({ message: "Set confirm to true to remove the wallet" }) })
+});
+
+const ImportWalletSchema = z.object({
+    name: WalletNameSchema,
+    secret: z.string().min(1),
+    type: z.enum(["mnemonic", "privateKey", "ethereumKey"]).optional(),
+    confirm: z.boolean().default(false)
+});
+
+const ExportAddressSchema = z.object({
+    from: z.string().optional()
+});
+
+// Exchange subaccount of the wallet account; 0 is the default subaccount, backed by the bank balance
+const SubaccountIndexSchema = z.number().int().min(0).max(MAX_SUBACCOUNT_INDEX);
+
+// Gas settings for tools that send a transaction
+const gasOptionFields = {
+    gasPrice: z.string().regex(/^\d+$/, "Expected a whole number of inj base units per unit of gas").optional(),
+    gasMultiplier: z.number().min(1).max(5).optional()
+};
+
+const feeOptionFields = {
+    simulate: z.boolean().default(false),
+    ...gasOptionFields
+};
+
 const TransferTokenSchema = z.object({
-    amount: z.number().gt(0),
+    amount: AmountSchema,
     recipient: z.string().min(42).max(44),
-    denom: z.string().default("inj")
+    denom: z.string().default("inj"),
+    network: z.string().optional(),
+    from: z.string().optional(),
+    ...feeOptionFields
 });
 
+const BatchTransferSchema = z.object({
+    transfers: z.array(z.object({
+        recipient: z.string(),
+        amount: z.union([z.string(), z.number()]).transform((value) => value.toString()), // Validated with the rest of the batch
+        denom: z.string().default("inj")
+    })).min(1).max(MAX_BATCH_TRANSFERS).optional(),
+    csv: z.string().min(1).optional(), // recipient,amount[,denom] per line
+    network: z.string().optional(),
+    from: z.string().optional(),
+    ...feeOptionFields,
+    // A MsgMultiSend's gas grows with its outputs, so size it from a simulation unless told otherwise
+    simulate: z.boolean().default(true)
+}).refine((input) => !input.transfers !== !input.csv, { message: "Provide either transfers or csv" });
+
 const QueryBalanceSchema = z.object({
-    denom: z.string().default("inj")
+    denom: z.string().default("inj"),
+    network: z.string().optional(),
+    from: z.string().optional(),
+    address: z.string().optional()
 });
 
 const DeployTokenSchema = z.object({
     name: z.string().min(1),
     symbol: z.string().min(1).max(12),
-    initialSupply: z.number().positive(),
-    decimals: z.number().min(0).max(18).default(18)
+    initialSupply: AmountSchema,
+    decimals: z.number().min(0).max(18).default(18),
+    network: z.string().optional(),
+    from: z.string().optional(),
+    ...feeOptionFields
+});
+
+// Denom (factory/...) or symbol of a token factory token administered by the wallet
+const FactoryDenomSchema = z.string().min(1);
+
+const MintTokenSchema = z.object({
+    denom: FactoryDenomSchema,
+    amount: AmountSchema,
+    network: z.string().optional(),
+    from: z.string().optional()
+});
+
+const UpdateTokenMetadataSchema = z.object({
+    denom: FactoryDenomSchema,
+    name: z.string().min(1).optional(),
+    symbol: z.string().min(1).max(12).optional(),
+    description: z.string().optional(),
+    uri: z.string().optional(), // Logo URI
+    uriHash: z.string().optional(),
+    network: z.string().optional(),
+    from: z.string().optional()
+}).refine((input) => [input.name, input.symbol, input.description, input.uri, input.uriHash].some((value) => value !== undefined),
+    { message: "Provide at least one of name, symbol, description, uri or uriHash" });
+
+const ChangeTokenAdminSchema = z.object({
+    denom: FactoryDenomSchema,
+    newAdmin: z.string().min(1),
+    network: z.string().optional(),
+    from: z.string().optional()
+});
+
+const SubaccountMovementSchema = z.object({
+    subaccountIndex: SubaccountIndexSchema.min(1),
+    amount: AmountSchema,
+    denom: z.string().default("inj"),
+    network: z.string().optional(),
+    from: z.string().optional()
+});
+
+const SubaccountTransferSchema = z.object({
+    fromIndex: SubaccountIndexSchema,
+    toIndex: SubaccountIndexSchema,
+    amount: AmountSchema,
+    denom: z.string().default("inj"),
+    network: z.string().optional(),
+    from: z.string().optional()
+}).refine((input) => input.fromIndex !== input.toIndex, { message: "fromIndex and toIndex must differ" });
+
+const ListSubaccountsSchema = z.object({
+    network: z.string().optional(),
+    from: z.string().optional()
+});
+
+const ListMyTokensSchema = z.object({
+    network: z.string().optional(),
+    from: z.string().optional()
+});
+
+// Coins sent along with a contract message, in human units
+const ContractFundsSchema = z.array(z.object({
+    denom: z.string().default("inj"),
+    amount: AmountSchema
+})).optional();
+
+// JSON message or query passed to a contract as is
+const ContractMsgSchema = z.record(z.unknown());
+
+const ContractAddressSchema = z.string().regex(/^inj1[0-9a-z]+$/, "Expected a contract address (inj1...)");
+
+const CodeIdSchema = z.number().int().positive();
+
+const StoreCodeSchema = z.object({
+    wasmPath: z.string().min(1),
+    network: z.string().optional(),
+    from: z.string().optional()
+});
+
+const InstantiateContractSchema = z.object({
+    codeId: CodeIdSchema,
+    label: z.string().min(1),
+    msg: ContractMsgSchema,
+    admin: z.string().optional(),
+    funds: ContractFundsSchema,
+    network: z.string().optional(),
+    from: z.string().optional()
+});
+
+const ExecuteContractSchema = z.object({
+    contract: ContractAddressSchema,
+    msg: ContractMsgSchema,
+    funds: ContractFundsSchema,
+    network: z.string().optional(),
+    from: z.string().optional()
+});
+
+const QueryContractSmartSchema = z.object({
+    contract: ContractAddressSchema,
+    query: ContractMsgSchema,
+    network: z.string().optional()
+});
+
+const MigrateContractSchema = z.object({
+    contract: ContractAddressSchema,
+    codeId: CodeIdSchema,
+    msg: ContractMsgSchema.default({}),
+    network: z.string().optional(),
+    from: z.string().optional()
+});
+
+// cw20-base accepts 3-50 character names and 3-12 character symbols of letters and dashes
+const DeployCw20Schema = z.object({
+    codeId: CodeIdSchema,
+    name: z.string().min(3).max(50),
+    symbol: z.string().regex(/^[a-zA-Z-]{3,12}$/, "Expected 3 to 12 letters or dashes"),
+    initialSupply: AmountSchema,
+    decimals: z.number().int().min(0).max(18).default(6),
+    network: z.string().optional(),
+    from: z.string().optional()
+});
+
+const TransferCw20Schema = z.object({
+    contract: ContractAddressSchema,
+    recipient: z.string().min(1),
+    amount: AmountSchema,
+    network: z.string().optional(),
+    from: z.string().optional()
 });
 
 const SwapTokenSchema = z.object({
     fromDenom: z.string().min(1),
     toDenom: z.string().min(1),
-    amount: z.number().positive(),
-    slippage: z.number().min(0).max(100).default(1) // Slippage tolerance in percentage
+    amount: AmountSchema,
+    slippage: z.number().min(0).max(100).default(1), // Slippage tolerance in percentage
+    network: z.string().optional(),
+    from: z.string().optional(),
+    dryRun: z.boolean().default(false),
+    maxPriceImpact: z.number().min(0).max(100).optional(), // Maximum price impact in percentage
+    subaccountIndex: SubaccountIndexSchema.default(0),
+    ...feeOptionFields
+});
+
+const GetQuoteSchema = z.object({
+    fromDenom: z.string().min(1),
+    toDenom: z.string().min(1),
+    amount: AmountSchema,
+    network: z.string().optional()
+});
+
+const OrderSideSchema = z.enum(["buy", "sell"]);
+
+const PlaceLimitOrderSchema = z.object({
+    market: z.string().min(1),
+    side: OrderSideSchema,
+    price: AmountSchema,
+    quantity: AmountSchema,
+    postOnly: z.boolean().default(false),
+    timeInForce: z.enum(["GTC", "IOC"]).default("GTC"),
+    cid: z.string().min(1).max(36).optional(),
+    subaccountIndex: SubaccountIndexSchema.default(0),
+    network: z.string().optional(),
+    from: z.string().optional()
+});
+
+const OrderReferenceSchema = z.object({
+    market: z.string().min(1),
+    orderHash: z.string().min(1).optional(),
+    cid: z.string().min(1).optional()
+}).refine((order) => order.orderHash || order.cid, { message: "Either orderHash or cid is required" });
+
+const CancelOrderSchema = OrderReferenceSchema.and(z.object({
+    subaccountIndex: SubaccountIndexSchema.default(0),
+    network: z.string().optional(),
+    from: z.string().optional()
+}));
+
+const BatchCancelOrdersSchema = z.object({
+    orders: z.array(OrderReferenceSchema).min(1).optional(),
+    market: z.string().min(1).optional(), // Cancel every open order in this market
+    subaccountIndex: SubaccountIndexSchema.default(0),
+    network: z.string().optional(),
+    from: z.string().optional()
+}).refine((input) => input.orders || input.market, { message: "Provide orders to cancel or a market to cancel all open orders in" });
+
+const ListOpenOrdersSchema = z.object({
+    market: z.string().min(1).optional(),
+    subaccountIndex: SubaccountIndexSchema.default(0),
+    network: z.string().optional(),
+    from: z.string().optional()
+});
+
+const ListDerivativeMarketsSchema = z.object({
+    query: z.string().optional(), // Case-insensitive ticker filter
+    network: z.string().optional()
+});
+
+const GetDerivativeMarketSchema = z.object({
+    market: z.string().min(1),
+    network: z.string().optional()
+});
+
+const GetPositionsSchema = z.object({
+    market: z.string().min(1).optional(),
+    subaccountIndex: SubaccountIndexSchema.default(0),
+    network: z.string().optional(),
+    from: z.string().optional()
+});
+
+const OpenPositionSchema = z.object({
+    market: z.string().min(1),
+    direction: z.enum(["long", "short"]),
+    quantity: AmountSchema,
+    leverage: z.number().positive().default(1),
+    slippage: z.number().min(0).max(100).default(1), // Slippage tolerance in percentage
+    subaccountIndex: SubaccountIndexSchema.default(0),
+    network: z.string().optional(),
+    from: z.string().optional()
+});
+
+const ReducePositionSchema = z.object({
+    market: z.string().min(1),
+    quantity: AmountSchema,
+    slippage: z.number().min(0).max(100).default(1),
+    subaccountIndex: SubaccountIndexSchema.default(0),
+    network: z.string().optional(),
+    from: z.string().optional()
+});
+
+const ClosePositionSchema = z.object({
+    market: z.string().min(1),
+    slippage: z.number().min(0).max(100).default(1),
+    subaccountIndex: SubaccountIndexSchema.default(0),
+    network: z.string().optional(),
+    from: z.string().optional()
+});
+
+const ListMarketsSchema = z.object({
+    type: z.enum(["spot", "perpetual", "all"]).default("all"),
+    token: z.string().min(1).optional(), // Denom or symbol traded in the market
+    network: z.string().optional()
 });
 
+const GetOrderbookSchema = z.object({
+    market: z.string().min(1),
+    depth: z.number().int().min(1).max(100).default(10),
+    network: z.string().optional()
+});
+
+const GetTickerSchema = z.object({
+    market: z.string().min(1),
+    network: z.string().optional()
+});
+
+const GetRecentTradesSchema = z.object({
+    market: z.string().min(1),
+    limit: z.number().int().min(1).max(100).default(20),
+    network: z.string().optional()
+});
+
+const ValidatorAddressSchema = z.string().regex(/^injvaloper1[a-z0-9]+$/, "Expected a validator operator address (injvaloper1...)");
+
+const ListValidatorsSchema = z.object({
+    includeInactive: z.boolean().default(false),
+    limit: z.number().int().min(1).max(500).default(50),
+    network: z.string().optional()
+});
+
+const DelegateSchema = z.object({
+    validator: ValidatorAddressSchema,
+    amount: AmountSchema,
+    network: z.string().optional(),
+    from: z.string().optional()
+});
+
+const RedelegateSchema = z.object({
+    srcValidator: ValidatorAddressSchema,
+    dstValidator: ValidatorAddressSchema,
+    amount: AmountSchema,
+    network: z.string().optional(),
+    from: z.string().optional()
+});
+
+const ClaimRewardsSchema = z.object({
+    validator: ValidatorAddressSchema.optional(),
+    network: z.string().optional(),
+    from: z.string().optional()
+});
+
+const GetStakingPositionSchema = z.object({
+    network: z.string().optional(),
+    from: z.string().optional()
+});
+
+const ListProposalsSchema = z.object({
+    status: z.enum(["deposit", "voting", "passed", "rejected", "failed"]).default("voting"),
+    limit: z.number().int().min(1).max(100).default(20),
+    network: z.string().optional()
+});
+
+const VoteSchema = z.object({
+    proposalId: z.number().int().positive(),
+    option: z.enum(["yes", "no", "abstain", "no_with_veto"]),
+    metadata: z.string().optional(),
+    network: z.string().optional(),
+    from: z.string().optional()
+});
+
+const GetPortfolioSchema = z.object({
+    includeUsd: z.boolean().default(false),
+    network: z.string().optional(),
+    from: z.string().optional()
+});
+
+const GetTransactionSchema = z.object({
+    hash: z.string().regex(/^(0x)?[0-9a-fA-F]{64}$/, "Expected a 64 character hex transaction hash"),
+    network: z.string().optional()
+});
+
+const GetTransactionHistorySchema = z.object({
+    limit: z.number().int().min(1).max(100).default(20),
+    skip: z.number().int().min(0).default(0),
+    network: z.string().optional(),
+    from: z.string().optional()
+});
+
+const ConfirmTransactionSchema = z.object({
+    token: z.string().min(1)
+});
+
+const EstimateFeeSchema = z.object({
+    tool: z.enum(["transfer-token", "deploy-token", "swap-token"]),
+    arguments: z.record(z.unknown()).default({}),
+    ...gasOptionFields
+});
+
+// Shared input schema property for tools that talk to the chain
+const networkProperty = {
+    type: "string",
+    description: "Network to use (mainnet, testnet, devnet, local or a custom network from the config file). Defaults to the server's configured network",
+};
+
+// Shared input schema property for tools that sign with a wallet account
+const fromProperty = {
+    type: "string",
+    description: "Wallet account to sign with: a wallet name, 'name:index' or an inj address from list-wallets. Defaults to the active account",
+};
+
+// Shared input schema property for tools that act on a spot market
+const marketProperty = {
+    type: "string",
+    description: "Spot market id (0x...) or ticker (e.g. 'INJ/USDT')",
+};
+
+// Shared input schema property for market data tools, which accept spot and perpetual markets
+const anyMarketProperty = {
+    type: "string",
+    description: "Spot or perpetual market id (0x...) or ticker (e.g. 'INJ/USDT' or 'INJ/USDT PERP')",
+};
+
+// Shared input schema property for trading tools
+const subaccountIndexProperty = {
+    type: "number",
+    description: `Exchange subaccount to trade from, 0 to ${MAX_SUBACCOUNT_INDEX} (default: 0, the default subaccount backed by the bank balance)`,
+};
+
+// Shared input schema properties for token factory and contract tools
+const factoryDenomProperty = {
+    type: "string",
+    description: "Token factory denom (factory/inj1.../subdenom) or symbol of a token administered by the wallet",
+};
+
+const contractProperty = {
+    type: "string",
+    description: "Contract address (inj1...)",
+};
+
+const codeIdProperty = {
+    type: "number",
+    description: "Code id returned by store-code",
+};
+
+const contractFundsProperty = {
+    type: "array",
+    description: "Coins to send to the contract, in human units",
+    items: {
+        type: "object",
+        properties: {
+            denom: {
+                type: "string",
+                description: "Token denomination or symbol (default: inj)",
+            },
+            amount: {
+                type: "string",
+                description: "Amount as a decimal string",
+            },
+        },
+        required: ["amount"],
+    },
+};
+
+// Shared input schema property for tools that act on a perpetual market
+const perpetualMarketProperty = {
+    type: "string",
+    description: "Perpetual market id (0x...) or ticker (e.g. 'INJ/USDT PERP' or 'INJ/USDT')",
+};
+
+// Shared input schema properties for tools that send a transaction
+const gasOptionProperties = {
+    gasPrice: {
+        type: "string",
+        description: "Gas price in inj base units per unit of gas (default: 160000000)",
+    },
+    gasMultiplier: {
+        type: "number",
+        description: "Multiplier applied to simulated gas to get the gas limit, 1 to 5 (default: 1.3)",
+    },
+};
+
+const feeOptionProperties = {
+    simulate: {
+        type: "boolean",
+        description: "Simulate the transaction first and set the gas limit from the gas it used instead of a per-message default (default: false)",
+    },
+    ...gasOptionProperties
+};
+
 // List available tools
 server.setRequestHandler(ListToolsRequestSchema, async () => {
     return {
         tools: [
             {
                 name: "create-wallet",
-                description: "Create a new Injective wallet. If a wallet already exists, returns the existing address.",
+                description: "Create a new Injective wallet. If a wallet with that name already exists, returns the existing address.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        name: {
+                            type: "string",
+                            description: "Name for the wallet (default: default)",
+                        }
+                    },
+                },
+            },
+            {
+                name: "list-wallets",
+                description: "List all stored wallets and their derived accounts, marking the active account",
                 inputSchema: {
                     type: "object",
                     properties: {},
                 },
             },
+            {
+                name: "select-wallet",
+                description: "Set the active wallet account used by default for signing",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        name: {
+                            type: "string",
+                            description: "Wallet name",
+                        },
+                        accountIndex: {
+                            type: "number",
+                            description: "Derived account index within the wallet (default: 0)",
+                        }
+                    },
+                    required: ["name"],
+                },
+            },
+            {
+                name: "derive-account",
+                description: "Derive an additional BIP-44 account (m/44'/60'/0'/0/index) from a wallet's mnemonic",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        wallet: {
+                            type: "string",
+                            description: "Wallet name (default: the active wallet)",
+                        },
+                        index: {
+                            type: "number",
+                            description: "Account index to derive (default: the next unused index)",
+                        }
+                    },
+                },
+            },
+            {
+                name: "remove-wallet",
+                description: "Permanently remove a wallet and its accounts from the keystore. Make sure the mnemonic is backed up first.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        name: {
+                            type: "string",
+                            description: "Wallet name",
+                        },
+                        confirm: {
+                            type: "boolean",
+                            description: "Must be true to confirm the removal",
+                        }
+                    },
+                    required: ["name", "confirm"],
+                },
+            },
+            {
+                name: "import-wallet",
+                description: "Import an existing account from a mnemonic, a raw private key hex or an Ethereum private key. " +
+                    "Call first without confirm to preview the derived inj1... and 0x... addresses, then again with confirm: true to store it.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        name: {
+                            type: "string",
+                            description: "Name for the imported wallet",
+                        },
+                        secret: {
+                            type: "string",
+                            description: "Mnemonic phrase, private key hex, or Ethereum private key (0x...)",
+                        },
+                        type: {
+                            type: "string",
+                            enum: ["mnemonic", "privateKey", "ethereumKey"],
+                            description: "Kind of secret (default: detected from the input)",
+                        },
+                        confirm: {
+                            type: "boolean",
+                            description: "Set to true to store the wallet after checking the previewed addresses (default: false)",
+                        }
+                    },
+                    required: ["name", "secret"],
+                },
+            },
+            {
+                name: "export-address",
+                description: "Show a wallet account's address in both bech32 (inj1...) and hex (0x...) forms",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        from: fromProperty
+                    },
+                },
+            },
             {
                 name: "transfer-token",
                 description: "Transfer tokens from your Injective wallet to another address.",
@@ -73,8 +775,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
                     type: "object",
                     properties: {
                         amount: {
-                            type: "number",
-                            description: "Token amount to transfer, greater than 0",
+                            type: "string",
+                            description: "Token amount to transfer as a decimal string (e.g. '1.5'), greater than 0",
                         },
                         recipient: {
                             type: "string",
@@ -82,91 +784,1053 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
                         },
                         denom: {
                             type: "string",
-                            description: "Token denomination (default: inj)",
-                        }
+                            description: "Token denomination or symbol, e.g. 'inj', 'USDT' or 'peggy0x...' (default: inj)",
+                        },
+                        network: networkProperty,
+                        from: fromProperty,
+                        ...feeOptionProperties
                     },
                     required: ["amount", "recipient"],
                 },
             },
             {
-                name: "query-balance",
-                description: "Query the balance of your Injective wallet",
+                name: "batch-transfer",
+                description: `Send tokens to up to ${MAX_BATCH_TRANSFERS} recipients in one atomic MsgMultiSend transaction: either everyone is paid or no one is. Every address and amount is validated before signing.`,
                 inputSchema: {
                     type: "object",
                     properties: {
-                        denom: {
+                        transfers: {
+                            type: "array",
+                            description: "Transfers to make",
+                            items: {
+                                type: "object",
+                                properties: {
+                                    recipient: {
+                                        type: "string",
+                                        description: "Recipient's Injective address (inj1...)",
+                                    },
+                                    amount: {
+                                        type: "string",
+                                        description: "Amount in human units as a decimal string, e.g. \"1.5\"",
+                                    },
+                                    denom: {
+                                        type: "string",
+                                        description: "Token denomination or symbol (default: inj)",
+                                    },
+                                },
+                                required: ["recipient", "amount"],
+                            },
+                        },
+                        csv: {
                             type: "string",
-                            description: "Token denomination (default: inj)",
-                        }
+                            description: "Transfers as CSV instead of a list: one recipient,amount[,denom] per line. A header row and # comments are ignored.",
+                        },
+                        network: networkProperty,
+                        from: fromProperty,
+                        ...feeOptionProperties,
+                        simulate: {
+                            type: "boolean",
+                            description: "Simulate the transaction first and set the gas limit from the gas it used (default: true)",
+                        },
                     },
                 },
             },
             {
-                name: "deploy-token",
-                description: "Deploy a new token on Injective using CosmWasm",
+                name: "query-balance",
+                description: "Query the balance of your Injective wallet, or of any address",
                 inputSchema: {
                     type: "object",
                     properties: {
-                        name: {
+                        denom: {
                             type: "string",
-                            description: "Token name (e.g., 'My Token')",
+                            description: "Token denomination or symbol, e.g. 'inj', 'USDT' or 'peggy0x...' (default: inj)",
                         },
-                        symbol: {
+                        network: networkProperty,
+                        from: {
                             type: "string",
-                            description: "Token symbol (e.g., 'MTK')",
-                        },
-                        initialSupply: {
-                            type: "number",
-                            description: "Initial token supply (e.g., 1000000)",
+                            description: "Wallet account to inspect: a wallet name, 'name:index' or an inj address. Defaults to the active account",
                         },
-                        decimals: {
-                            type: "number",
-                            description: "Number of decimals for the token (default: 18)",
+                        address: {
+                            type: "string",
+                            description: "Any inj1... address to query instead of a wallet account",
                         }
                     },
-                    required: ["name", "symbol", "initialSupply"],
                 },
             },
             {
-                name: "swap-token",
-                description: "Swap one token for another on Injective using spot market orders",
+                name: "get-portfolio",
+                description: "List everything a wallet account owns: bank balances, exchange subaccount deposits, staked and unbonding INJ and pending staking rewards",
                 inputSchema: {
                     type: "object",
                     properties: {
-                        fromDenom: {
-                            type: "string",
-                            description: "Source token denomination (e.g., 'inj', 'peggy0x...')",
+                        includeUsd: {
+                            type: "boolean",
+                            description: "Value each balance in USD from spot market mid prices (default: false)",
                         },
-                        toDenom: {
+                        network: networkProperty,
+                        from: {
                             type: "string",
-                            description: "Destination token denomination (e.g., 'inj', 'factory/...')",
-                        },
-                        amount: {
-                            type: "number",
-                            description: "Amount of source token to swap",
-                        },
-                        slippage: {
-                            type: "number",
-                            description: "Slippage tolerance percentage (default: 1%)",
+                            description: "Wallet account to inspect: a wallet name, 'name:index' or an inj address. Defaults to the active account",
                         }
                     },
-                    required: ["fromDenom", "toDenom", "amount"],
                 },
-            }
-        ],
-    };
-});
-
-// Wallet management functions
-async function createWallet() {
+            },
+            {
+                name: "get-transaction",
+                description: "Look up a transaction by hash: status, gas used, fees, decoded messages, events and the failure log if it failed. Use it to confirm a transfer, swap or deployment landed",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        hash: {
+                            type: "string",
+                            description: "Transaction hash, as returned by the transaction tools",
+                        },
+                        network: networkProperty
+                    },
+                    required: ["hash"],
+                },
+            },
+            {
+                name: "get-transaction-history",
+                description: "List past transactions of a wallet account, newest first, a page at a time",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        limit: {
+                            type: "number",
+                            description: "Transactions per page, 1 to 100 (default: 20)",
+                        },
+                        skip: {
+                            type: "number",
+                            description: "Number of newer transactions to skip, for paging (default: 0)",
+                        },
+                        network: networkProperty,
+                        from: {
+                            type: "string",
+                            description: "Wallet account to inspect: a wallet name, 'name:index' or an inj address. Defaults to the active account",
+                        }
+                    },
+                },
+            },
+            {
+                name: "deploy-token",
+                description: "Deploy a new token on Injective using the token factory module. Use deploy-cw20 for a CW20 contract token",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        name: {
+                            type: "string",
+                            description: "Token name (e.g., 'My Token')",
+                        },
+                        symbol: {
+                            type: "string",
+                            description: "Token symbol (e.g., 'MTK')",
+                        },
+                        initialSupply: {
+                            type: "string",
+                            description: "Initial token supply as a decimal string (e.g., '1000000')",
+                        },
+                        decimals: {
+                            type: "number",
+                            description: "Number of decimals for the token (default: 18)",
+                        },
+                        network: networkProperty,
+                        from: fromProperty,
+                        ...feeOptionProperties
+                    },
+                    required: ["name", "symbol", "initialSupply"],
+                },
+            },
+            {
+                name: "mint-token",
+                description: "Mint more of a token factory token into the wallet. Only the token's admin can mint",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        denom: factoryDenomProperty,
+                        amount: {
+                            type: "string",
+                            description: "Amount to mint as a decimal string in human units",
+                        },
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                    required: ["denom", "amount"],
+                },
+            },
+            {
+                name: "burn-token",
+                description: "Burn a token factory token from the wallet's own balance. Only the token's admin can burn",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        denom: factoryDenomProperty,
+                        amount: {
+                            type: "string",
+                            description: "Amount to burn as a decimal string in human units",
+                        },
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                    required: ["denom", "amount"],
+                },
+            },
+            {
+                name: "update-token-metadata",
+                description: "Change the name, symbol, description or logo URI of a token factory token. Fields that are not given keep their current value",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        denom: factoryDenomProperty,
+                        name: {
+                            type: "string",
+                            description: "New token name",
+                        },
+                        symbol: {
+                            type: "string",
+                            description: "New token symbol, up to 12 characters",
+                        },
+                        description: {
+                            type: "string",
+                            description: "New token description",
+                        },
+                        uri: {
+                            type: "string",
+                            description: "URI of the token logo or metadata document",
+                        },
+                        uriHash: {
+                            type: "string",
+                            description: "SHA-256 hash of the document at uri, hex encoded",
+                        },
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                    required: ["denom"],
+                },
+            },
+            {
+                name: "change-token-admin",
+                description: "Hand the admin rights of a token factory token to another address. The wallet can no longer mint, burn or update the token afterwards",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        denom: factoryDenomProperty,
+                        newAdmin: {
+                            type: "string",
+                            description: "Injective address (inj1...) of the new admin",
+                        },
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                    required: ["denom", "newAdmin"],
+                },
+            },
+            {
+                name: "list-my-tokens",
+                description: "List the token factory tokens created by a wallet account, with supply and current admin",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        network: networkProperty,
+                        from: {
+                            type: "string",
+                            description: "Wallet account to inspect: a wallet name, 'name:index' or an inj address. Defaults to the active account",
+                        }
+                    },
+                },
+            },
+            {
+                name: "store-code",
+                description: "Upload a compiled CosmWasm contract from a local .wasm file (optionally gzipped) and return its code id",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        wasmPath: {
+                            type: "string",
+                            description: "Path of the .wasm file on this machine",
+                        },
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                    required: ["wasmPath"],
+                },
+            },
+            {
+                name: "instantiate-contract",
+                description: "Create a contract from stored code and return its address",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        codeId: codeIdProperty,
+                        label: {
+                            type: "string",
+                            description: "Human-readable label of the contract",
+                        },
+                        msg: {
+                            type: "object",
+                            description: "Instantiate message as JSON",
+                        },
+                        admin: {
+                            type: "string",
+                            description: "Address allowed to migrate the contract (default: the wallet)",
+                        },
+                        funds: contractFundsProperty,
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                    required: ["codeId", "label", "msg"],
+                },
+            },
+            {
+                name: "execute-contract",
+                description: "Execute a message on a contract, optionally sending funds, and return the events it emitted",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        contract: contractProperty,
+                        msg: {
+                            type: "object",
+                            description: "Execute message as JSON, e.g. {\"increment\": {}}",
+                        },
+                        funds: contractFundsProperty,
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                    required: ["contract", "msg"],
+                },
+            },
+            {
+                name: "query-contract-smart",
+                description: "Run a read-only smart query on a contract and return the decoded JSON response",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        contract: contractProperty,
+                        query: {
+                            type: "object",
+                            description: "Query message as JSON, e.g. {\"token_info\": {}}",
+                        },
+                        network: networkProperty
+                    },
+                    required: ["contract", "query"],
+                },
+            },
+            {
+                name: "migrate-contract",
+                description: "Migrate a contract to other stored code. Only the contract's admin can migrate it",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        contract: contractProperty,
+                        codeId: codeIdProperty,
+                        msg: {
+                            type: "object",
+                            description: "Migrate message as JSON (default: {})",
+                        },
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                    required: ["contract", "codeId"],
+                },
+            },
+            {
+                name: "deploy-cw20",
+                description: "Deploy a CW20 token by instantiating stored cw20-base code. The wallet receives the initial supply and becomes the minter",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        codeId: {
+                            type: "number",
+                            description: "Code id of cw20-base on the network, or of an upload made with store-code",
+                        },
+                        name: {
+                            type: "string",
+                            description: "Token name, 3 to 50 characters",
+                        },
+                        symbol: {
+                            type: "string",
+                            description: "Token symbol, 3 to 12 letters or dashes",
+                        },
+                        initialSupply: {
+                            type: "string",
+                            description: "Initial supply as a decimal string",
+                        },
+                        decimals: {
+                            type: "number",
+                            description: "Number of decimals (default: 6)",
+                        },
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                    required: ["codeId", "name", "symbol", "initialSupply"],
+                },
+            },
+            {
+                name: "transfer-cw20",
+                description: "Transfer CW20 tokens to another address",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        contract: {
+                            type: "string",
+                            description: "CW20 token contract address (inj1...)",
+                        },
+                        recipient: {
+                            type: "string",
+                            description: "Recipient's Injective address (inj1...)",
+                        },
+                        amount: {
+                            type: "string",
+                            description: "Amount as a decimal string in human units",
+                        },
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                    required: ["contract", "recipient", "amount"],
+                },
+            },
+            {
+                name: "swap-token",
+                description: "Swap one token for another on Injective using spot market orders, routing through intermediate assets like USDT or INJ when that yields more. Use dryRun to get a quote without broadcasting.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        fromDenom: {
+                            type: "string",
+                            description: "Source token denomination or symbol (e.g., 'inj', 'USDT', 'peggy0x...')",
+                        },
+                        toDenom: {
+                            type: "string",
+                            description: "Destination token denomination or symbol (e.g., 'inj', 'USDT', 'factory/...')",
+                        },
+                        amount: {
+                            type: "string",
+                            description: "Amount of source token to swap as a decimal string (e.g. '2.5')",
+                        },
+                        slippage: {
+                            type: "number",
+                            description: "Slippage tolerance percentage (default: 1%)",
+                        },
+                        dryRun: {
+                            type: "boolean",
+                            description: "Only quote the swap from the live orderbook (expected fill, average price, price impact, fees) without broadcasting (default: false)",
+                        },
+                        maxPriceImpact: {
+                            type: "number",
+                            description: "Reject the swap if its price impact across the orderbook exceeds this percentage",
+                        },
+                        subaccountIndex: subaccountIndexProperty,
+                        network: networkProperty,
+                        from: fromProperty,
+                        ...feeOptionProperties
+                    },
+                    required: ["fromDenom", "toDenom", "amount"],
+                },
+            },
+            {
+                name: "estimate-fee",
+                description: "Simulate a transfer-token, deploy-token or swap-token call without signing it: reports gas and the fee in INJ, and whether the balance covers the amount plus the fee",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        tool: {
+                            type: "string",
+                            enum: ["transfer-token", "deploy-token", "swap-token"],
+                            description: "Tool whose transaction to estimate",
+                        },
+                        arguments: {
+                            type: "object",
+                            description: "Arguments exactly as they would be passed to that tool, including network and from",
+                        },
+                        ...gasOptionProperties
+                    },
+                    required: ["tool", "arguments"],
+                },
+            },
+            {
+                name: "confirm-transaction",
+                description: "Sign and broadcast a transaction that a value-moving tool prepared because it is above the spending policy's confirmation thresholds. Only confirm what the user has approved.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        token: {
+                            type: "string",
+                            description: "Confirmation token from the prepared transaction's summary",
+                        }
+                    },
+                    required: ["token"],
+                },
+            },
+            {
+                name: "get-quote",
+                description: "Quote a swap along the best direct or multi-hop route by walking the live spot orderbooks: volume-weighted fill price, price impact, fees and any unfilled remainder per leg",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        fromDenom: {
+                            type: "string",
+                            description: "Source token denomination or symbol (e.g., 'inj', 'USDT', 'peggy0x...')",
+                        },
+                        toDenom: {
+                            type: "string",
+                            description: "Destination token denomination or symbol (e.g., 'inj', 'USDT', 'factory/...')",
+                        },
+                        amount: {
+                            type: "string",
+                            description: "Amount of source token to swap as a decimal string (e.g. '2.5')",
+                        },
+                        network: networkProperty
+                    },
+                    required: ["fromDenom", "toDenom", "amount"],
+                },
+            },
+            {
+                name: "place-limit-order",
+                description: "Place a spot limit order. GTC orders rest on the book until filled or cancelled; post-only orders are never matched on entry",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        market: marketProperty,
+                        side: {
+                            type: "string",
+                            enum: ["buy", "sell"],
+                            description: "Buy or sell the market's base token",
+                        },
+                        price: {
+                            type: "string",
+                            description: "Limit price in quote tokens per base token as a decimal string (e.g. '25.1')",
+                        },
+                        quantity: {
+                            type: "string",
+                            description: "Quantity of the base token as a decimal string (e.g. '2.5')",
+                        },
+                        postOnly: {
+                            type: "boolean",
+                            description: "Reject the order instead of trading against resting orders (default: false)",
+                        },
+                        timeInForce: {
+                            type: "string",
+                            enum: ["GTC", "IOC"],
+                            description: "GTC rests until filled or cancelled; IOC fills what it can at the limit price or better and drops the rest (default: GTC)",
+                        },
+                        cid: {
+                            type: "string",
+                            description: "Client order id (up to 36 characters) to cancel the order by. Generated when omitted",
+                        },
+                        subaccountIndex: subaccountIndexProperty,
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                    required: ["market", "side", "price", "quantity"],
+                },
+            },
+            {
+                name: "cancel-order",
+                description: "Cancel a resting spot order by its order hash or client order id",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        market: marketProperty,
+                        orderHash: {
+                            type: "string",
+                            description: "Order hash from list-open-orders",
+                        },
+                        cid: {
+                            type: "string",
+                            description: "Client order id the order was placed with",
+                        },
+                        subaccountIndex: subaccountIndexProperty,
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                    required: ["market"],
+                },
+            },
+            {
+                name: "batch-cancel-orders",
+                description: "Cancel several spot orders in one transaction, or every open order in a market",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        orders: {
+                            type: "array",
+                            description: "Orders to cancel, each identified by market and orderHash or cid",
+                            items: {
+                                type: "object",
+                                properties: {
+                                    market: marketProperty,
+                                    orderHash: { type: "string" },
+                                    cid: { type: "string" }
+                                },
+                                required: ["market"],
+                            },
+                        },
+                        market: {
+                            type: "string",
+                            description: "Cancel every open order in this spot market (id or ticker) instead of listing orders",
+                        },
+                        subaccountIndex: subaccountIndexProperty,
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                },
+            },
+            {
+                name: "list-open-orders",
+                description: "List the resting spot orders of a wallet account, in human units",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        market: {
+                            type: "string",
+                            description: "Only list orders in this spot market (id or ticker)",
+                        },
+                        subaccountIndex: subaccountIndexProperty,
+                        network: networkProperty,
+                        from: {
+                            type: "string",
+                            description: "Wallet account whose orders to list: a wallet name, 'name:index' or an inj address. Defaults to the active account",
+                        }
+                    },
+                },
+            },
+            {
+                name: "subaccount-deposit",
+                description: "Move tokens from the bank balance into an exchange subaccount, to trade from it with subaccountIndex",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        subaccountIndex: {
+                            type: "number",
+                            description: `Subaccount to deposit into, 1 to ${MAX_SUBACCOUNT_INDEX}. Subaccount 0 trades from the bank balance directly`,
+                        },
+                        amount: {
+                            type: "string",
+                            description: "Amount as a decimal string in human units",
+                        },
+                        denom: {
+                            type: "string",
+                            description: "Token denomination or symbol (default: inj)",
+                        },
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                    required: ["subaccountIndex", "amount"],
+                },
+            },
+            {
+                name: "subaccount-withdraw",
+                description: "Move available tokens from an exchange subaccount back to the bank balance. Funds locked in orders or margin stay",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        subaccountIndex: {
+                            type: "number",
+                            description: `Subaccount to withdraw from, 1 to ${MAX_SUBACCOUNT_INDEX}`,
+                        },
+                        amount: {
+                            type: "string",
+                            description: "Amount as a decimal string in human units",
+                        },
+                        denom: {
+                            type: "string",
+                            description: "Token denomination or symbol (default: inj)",
+                        },
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                    required: ["subaccountIndex", "amount"],
+                },
+            },
+            {
+                name: "subaccount-transfer",
+                description: "Move available tokens between two exchange subaccounts of the wallet account",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        fromIndex: {
+                            type: "number",
+                            description: `Source subaccount, 0 to ${MAX_SUBACCOUNT_INDEX}`,
+                        },
+                        toIndex: {
+                            type: "number",
+                            description: `Destination subaccount, 0 to ${MAX_SUBACCOUNT_INDEX}`,
+                        },
+                        amount: {
+                            type: "string",
+                            description: "Amount as a decimal string in human units",
+                        },
+                        denom: {
+                            type: "string",
+                            description: "Token denomination or symbol (default: inj)",
+                        },
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                    required: ["fromIndex", "toIndex", "amount"],
+                },
+            },
+            {
+                name: "list-subaccounts",
+                description: "List the exchange subaccounts of a wallet account that hold deposits, with total and available balances",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        network: networkProperty,
+                        from: {
+                            type: "string",
+                            description: "Wallet account to inspect: a wallet name, 'name:index' or an inj address. Defaults to the active account",
+                        }
+                    },
+                },
+            },
+            {
+                name: "list-derivative-markets",
+                description: "List active perpetual futures markets with their maximum leverage and fees",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        query: {
+                            type: "string",
+                            description: "Only list markets whose ticker contains this text (e.g. 'INJ')",
+                        },
+                        network: networkProperty
+                    },
+                },
+            },
+            {
+                name: "get-derivative-market",
+                description: "Get a perpetual market's mark price, funding rate, next funding time and margin requirements",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        market: perpetualMarketProperty,
+                        network: networkProperty
+                    },
+                    required: ["market"],
+                },
+            },
+            {
+                name: "get-positions",
+                description: "List open perpetual positions with entry, mark and liquidation prices, margin and unrealized PnL",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        market: {
+                            type: "string",
+                            description: "Only show the position in this perpetual market (id or ticker)",
+                        },
+                        subaccountIndex: subaccountIndexProperty,
+                        network: networkProperty,
+                        from: {
+                            type: "string",
+                            description: "Wallet account whose positions to list: a wallet name, 'name:index' or an inj address. Defaults to the active account",
+                        }
+                    },
+                },
+            },
+            {
+                name: "open-position",
+                description: "Open or increase a perpetual position with a market order, posting margin for the requested leverage",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        market: perpetualMarketProperty,
+                        direction: {
+                            type: "string",
+                            enum: ["long", "short"],
+                            description: "Position direction",
+                        },
+                        quantity: {
+                            type: "string",
+                            description: "Position size in contracts as a decimal string (e.g. '0.5')",
+                        },
+                        leverage: {
+                            type: "number",
+                            description: "Leverage, up to the market's maximum (default: 1)",
+                        },
+                        slippage: {
+                            type: "number",
+                            description: "Slippage tolerance percentage (default: 1%)",
+                        },
+                        subaccountIndex: subaccountIndexProperty,
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                    required: ["market", "direction", "quantity"],
+                },
+            },
+            {
+                name: "reduce-position",
+                description: "Reduce a perpetual position by a number of contracts with a reduce-only market order",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        market: perpetualMarketProperty,
+                        quantity: {
+                            type: "string",
+                            description: "Contracts to close as a decimal string (e.g. '0.5')",
+                        },
+                        slippage: {
+                            type: "number",
+                            description: "Slippage tolerance percentage (default: 1%)",
+                        },
+                        subaccountIndex: subaccountIndexProperty,
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                    required: ["market", "quantity"],
+                },
+            },
+            {
+                name: "close-position",
+                description: "Close a whole perpetual position with a reduce-only market order",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        market: perpetualMarketProperty,
+                        slippage: {
+                            type: "number",
+                            description: "Slippage tolerance percentage (default: 1%)",
+                        },
+                        subaccountIndex: subaccountIndexProperty,
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                    required: ["market"],
+                },
+            },
+            {
+                name: "list-markets",
+                description: "List spot and perpetual markets, optionally only those trading a given token",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        type: {
+                            type: "string",
+                            enum: ["spot", "perpetual", "all"],
+                            description: "Kind of markets to list (default: all)",
+                        },
+                        token: {
+                            type: "string",
+                            description: "Only list markets trading this denom or symbol (e.g. 'USDT', 'inj', 'peggy0x...')",
+                        },
+                        network: networkProperty
+                    },
+                },
+            },
+            {
+                name: "get-orderbook",
+                description: "Get the top levels of a market's orderbook in human units, with best bid, best ask, mid price and spread",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        market: anyMarketProperty,
+                        depth: {
+                            type: "number",
+                            description: "Price levels per side, 1 to 100 (default: 10)",
+                        },
+                        network: networkProperty
+                    },
+                    required: ["market"],
+                },
+            },
+            {
+                name: "get-ticker",
+                description: "Get a market's last price, best bid and ask, and 24h open, high, low, volume and change",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        market: anyMarketProperty,
+                        network: networkProperty
+                    },
+                    required: ["market"],
+                },
+            },
+            {
+                name: "get-recent-trades",
+                description: "Get the most recent trades of a market in human units, newest first",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        market: anyMarketProperty,
+                        limit: {
+                            type: "number",
+                            description: "Number of trades, 1 to 100 (default: 20)",
+                        },
+                        network: networkProperty
+                    },
+                    required: ["market"],
+                },
+            },
+            {
+                name: "list-validators",
+                description: "List validators by voting power with their commission and status",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        includeInactive: {
+                            type: "boolean",
+                            description: "Also list unbonded and jailed validators (default: false)",
+                        },
+                        limit: {
+                            type: "number",
+                            description: "Maximum number of validators to list (default: 50)",
+                        },
+                        network: networkProperty
+                    },
+                },
+            },
+            {
+                name: "delegate",
+                description: "Stake INJ with a validator",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        validator: {
+                            type: "string",
+                            description: "Validator operator address (injvaloper1...) from list-validators",
+                        },
+                        amount: {
+                            type: "string",
+                            description: "Amount of INJ to delegate as a decimal string (e.g. '10')",
+                        },
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                    required: ["validator", "amount"],
+                },
+            },
+            {
+                name: "undelegate",
+                description: "Unstake INJ from a validator. Tokens are returned after the chain's unbonding period",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        validator: {
+                            type: "string",
+                            description: "Validator operator address (injvaloper1...) currently delegated to",
+                        },
+                        amount: {
+                            type: "string",
+                            description: "Amount of INJ to undelegate as a decimal string (e.g. '10')",
+                        },
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                    required: ["validator", "amount"],
+                },
+            },
+            {
+                name: "redelegate",
+                description: "Move staked INJ from one validator to another without unbonding",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        srcValidator: {
+                            type: "string",
+                            description: "Validator operator address to move stake from",
+                        },
+                        dstValidator: {
+                            type: "string",
+                            description: "Validator operator address to move stake to",
+                        },
+                        amount: {
+                            type: "string",
+                            description: "Amount of INJ to redelegate as a decimal string (e.g. '10')",
+                        },
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                    required: ["srcValidator", "dstValidator", "amount"],
+                },
+            },
+            {
+                name: "claim-rewards",
+                description: "Withdraw pending staking rewards from one validator or from all of them",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        validator: {
+                            type: "string",
+                            description: "Only claim from this validator operator address (default: all validators with rewards)",
+                        },
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                },
+            },
+            {
+                name: "get-staking-position",
+                description: "Show delegated, unbonding and pending reward INJ per validator for a wallet account",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        network: networkProperty,
+                        from: {
+                            type: "string",
+                            description: "Wallet account to inspect: a wallet name, 'name:index' or an inj address. Defaults to the active account",
+                        }
+                    },
+                },
+            },
+            {
+                name: "list-proposals",
+                description: "List governance proposals by status, newest first",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        status: {
+                            type: "string",
+                            enum: ["deposit", "voting", "passed", "rejected", "failed"],
+                            description: "Proposal status to list (default: voting)",
+                        },
+                        limit: {
+                            type: "number",
+                            description: "Maximum number of proposals (default: 20)",
+                        },
+                        network: networkProperty
+                    },
+                },
+            },
+            {
+                name: "vote",
+                description: "Vote on a governance proposal in its voting period",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        proposalId: {
+                            type: "number",
+                            description: "Proposal id from list-proposals",
+                        },
+                        option: {
+                            type: "string",
+                            enum: ["yes", "no", "abstain", "no_with_veto"],
+                            description: "Vote option",
+                        },
+                        metadata: {
+                            type: "string",
+                            description: "Optional vote metadata or rationale",
+                        },
+                        network: networkProperty,
+                        from: fromProperty
+                    },
+                    required: ["proposalId", "option"],
+                },
+            }
+        ],
+    };
+});
+
+// Wallet management functions
+async function createWallet(name: string = DEFAULT_WALLET_NAME) {
     try {
         const { PrivateKey } = await import('@injectivelabs/sdk-ts');
         
         // Check if wallet already exists
-        const walletExists = await checkWalletExists();
+        const walletExists = await checkWalletExists(name);
         if (walletExists) {
-            const walletData = await loadWallet();
-            return { address: walletData.address, isNew: false };
+            return { address: await getWalletAddress(name), isNew: false };
         }
 
         // Create new wallet with proper access to generated objects
@@ -176,7 +1840,7 @@ async function createWallet() {
         const mnemonic = generated.mnemonic;
 
         // Save wallet data
-        await saveWallet(address, mnemonic);
+        await saveWallet(address, mnemonic, name);
 
         return { address, isNew: true };
     } catch (error: any) {
@@ -185,106 +1849,98 @@ async function createWallet() {
     }
 }
 
-async function checkWalletExists() {
+async function importWallet(name: string, secret: string, type?: "mnemonic" | "privateKey" | "ethereumKey", confirm: boolean = false) {
     try {
-        await fs.access(walletFilePath);
-        return true;
-    } catch {
-        return false;
-    }
-}
+        // Ethereum private keys are plain secp256k1 keys, same as Injective's
+        const parsed = await parseWalletSecret(secret, type === "ethereumKey" ? "privateKey" : type);
+        const address = parsed.privateKey.toBech32();
+        const ethAddress = parsed.privateKey.toHex();
 
-async function saveWallet(address: string, mnemonic: string) {
-    const walletData = {
-        address,
-        mnemonic,
-        createdAt: new Date().toISOString()
-    };
+        const existingName = await findWalletByAddress(address);
+        if (existingName) {
+            throw new Error(`Address ${address} is already stored as wallet "${existingName}"`);
+        }
+        if (await checkWalletExists(name)) {
+            throw new Error(`A wallet named "${name}" already exists.`);
+        }
 
-    await fs.mkdir(path.dirname(walletFilePath), { recursive: true });
-    await fs.writeFile(walletFilePath, JSON.stringify(walletData, null, 2), 'utf8');
+        if (confirm) {
+            await saveWallet(address, parsed.secret, name, parsed.kind);
+        }
+
+        return { name, kind: parsed.kind, address, ethAddress, saved: confirm };
+    } catch (error: any) {
+        console.error("Error importing wallet:", error.message);
+        throw new Error(`Failed to import wallet: ${error.message}`);
+    }
 }
 
-async function loadWallet() {
-    const jsonString = await fs.readFile(walletFilePath, 'utf8');
-    return JSON.parse(jsonString);
+/**
+ * Builds the MsgSend of a transfer and what it spends in base units
+ */
+async function prepareTransfer(networkContext: NetworkContext, privateKey: PrivateKey, recipient: string, amount: string, denom: string) {
+    // Dynamic imports to avoid type issues
+    const sdkTs = await import('@injectivelabs/sdk-ts');
+    const MsgSend = sdkTs.MsgSend || (sdkTs as any).MsgSend;
+    
+    // Normalize denom if needed
+    const normalizedDenom = await normalizeDenom(denom, networkContext);
+    
+    // Convert amount to base units using the token's decimals from its metadata
+    const { decimals } = await getTokenMetadata(normalizedDenom, networkContext);
+    const amountInBaseUnits = toBaseUnits(amount, decimals);
+    
+    // Create MsgSend with correct structure for latest SDK version
+    const msgSendParams = {
+        srcInjectiveAddress: privateKey.toBech32(),
+        dstInjectiveAddress: recipient,
+        amount: {
+            denom: normalizedDenom,
+            amount: amountInBaseUnits
+        }
+    };
+    
+    // Try different ways to create MsgSend based on SDK version
+    let msgSend;
+    if (typeof MsgSend.fromJSON === 'function') {
+        msgSend = MsgSend.fromJSON(msgSendParams);
+    } else if (typeof MsgSend === 'function') {
+        msgSend = new MsgSend(msgSendParams);
+    } else {
+        throw new Error("Unable to create MsgSend - incompatible SDK version");
+    }
+    
+    return {
+        msgs: [msgSend],
+        spend: [{ denom: normalizedDenom, amount: amountInBaseUnits }]
+    };
 }
 
-async function transferToken(recipient: string, amount: number, denom: string = 'inj') {
+async function transferToken(recipient: string, amount: string, denom: string = 'inj', networkName?: string, from?: string, feeOptions: FeeOptions = {}) {
     try {
-        // Import dynamically to handle any potential import issues
-        const { 
-            PrivateKey,
-            ChainGrpcAuthApi,
-            MsgBroadcasterWithPk
-        } = await import('@injectivelabs/sdk-ts');
-        const { getNetworkEndpoints, Network } = await import('@injectivelabs/networks');
-        
-        // Dynamic imports to avoid type issues
-        const sdkTs = await import('@injectivelabs/sdk-ts');
-        const MsgSend = sdkTs.MsgSend || (sdkTs as any).MsgSend;
-        
         // Check if wallet exists
         if (!await checkWalletExists()) {
             throw new Error("Wallet not found. Please create a wallet first.");
         }
 
         // Get wallet credentials
-        const walletData = await loadWallet();
-        const privateKey = PrivateKey.fromMnemonic(walletData.mnemonic);
+        const privateKey = await loadPrivateKey(from);
         const injectiveAddress = privateKey.toBech32();
         
-        // Normalize denom if needed
-        const normalizedDenom = normalizeDenom(denom);
-        
-        // Set up network endpoints - using Mainnet for consistency with other functions
-        const network = Network.Testnet;
-        const endpoints = getNetworkEndpoints(network);
-        
-        // Initialize required API clients
-        const chainGrpcAuthApi = new ChainGrpcAuthApi(endpoints.grpc);
-        
-        // Convert amount to base units (considering 18 decimals for INJ or appropriate decimals for other tokens)
-        const decimals = 18; // Default for INJ, ideally should be fetched from token metadata
-        const amountInBaseUnits = (amount * Math.pow(10, decimals)).toString();
-        
-        // Create MsgSend with correct structure for latest SDK version
-        const msgSendParams = {
-            srcInjectiveAddress: injectiveAddress,
-            dstInjectiveAddress: recipient,
-            amount: {
-                denom: normalizedDenom,
-                amount: amountInBaseUnits
-            }
-        };
-        
-        // Try different ways to create MsgSend based on SDK version
-        let msgSend;
-        if (typeof MsgSend.fromJSON === 'function') {
-            msgSend = MsgSend.fromJSON(msgSendParams);
-        } else if (typeof MsgSend === 'function') {
-            msgSend = new MsgSend(msgSendParams);
-        } else {
-            throw new Error("Unable to create MsgSend - incompatible SDK version");
-        }
+        // Set up network endpoints for the selected network
+        const networkContext = await resolveNetwork(networkName);
         
-        // Use MsgBroadcasterWithPk to broadcast the transaction
-        const msgBroadcaster = new MsgBroadcasterWithPk({
-            network,
-            privateKey: privateKey.toPrivateKeyHex(),
-            endpoints: endpoints
-        });
+        const { msgs, spend } = await prepareTransfer(networkContext, privateKey, recipient, amount, denom);
         
+        // The balance must cover the amount plus the fee, so a transfer of the whole balance fails before signing
         console.error(`Broadcasting transfer of ${amount} ${denom} to ${recipient}...`);
-        const txResponse = await msgBroadcaster.broadcast({
-            msgs: [msgSend]
-        });
+        const tx = await broadcastMsgs(networkContext, privateKey, msgs, `transfer of ${amount} ${denom} to ${recipient}`, { ...feeOptions, spend, recipients: [recipient] });
         
-        console.error(`Transaction successful: ${txResponse.txHash}`);
+        console.error(`Transaction successful: ${tx.txHash}`);
         
         // Return transaction details
         return {
-            transactionHash: txResponse.txHash,
+            tx,
             amount,
             denom,
             recipient,
@@ -296,43 +1952,47 @@ async function transferToken(recipient: string, amount: number, denom: string =
     }
 }
 
-async function queryBalance(denom: string = 'inj') {
+async function queryBalance(denom: string = 'inj', networkName?: string, from?: string, address?: string) {
     try {
         // Import dynamically to handle any potential import issues
-        const { PrivateKey, ChainGrpcBankApi } = await import('@injectivelabs/sdk-ts');
-        const { getNetworkEndpoints, Network } = await import('@injectivelabs/networks');
+        const { ChainGrpcBankApi } = await import('@injectivelabs/sdk-ts');
         
-        // Check if wallet exists
-        if (!await checkWalletExists()) {
-            throw new Error("Wallet not found. Please create a wallet first.");
+        // Any account can be queried by address; otherwise only the wallet's address is needed, so the keystore stays locked
+        let injectiveAddress: string;
+        if (address) {
+            if (!await isAccountAddress(address)) {
+                throw new ToolError('INVALID_ADDRESS', `${address} is not a valid inj1... address`);
+            }
+            injectiveAddress = address;
+        } else {
+            if (!await checkWalletExists()) {
+                throw new Error("Wallet not found. Please create a wallet first.");
+            }
+            injectiveAddress = (await getAccount(from)).address;
         }
-
-        const walletData = await loadWallet();
-        const privateKey = PrivateKey.fromMnemonic(walletData.mnemonic);
-        const injectiveAddress = privateKey.toBech32();
         
         // Set up the network endpoints and Bank API client
-        const network = Network.Testnet; // Use Testnet for development, Network.Testnet for production
-        const endpoints = getNetworkEndpoints(network);
-        const chainGrpcBankApi = new ChainGrpcBankApi(endpoints.grpc);
+        const networkContext = await resolveNetwork(networkName);
+        const chainGrpcBankApi = new ChainGrpcBankApi(networkContext.endpoints.grpc);
         
         // Query the chain for the balance
-        const normalizedDenom = normalizeDenom(denom);
+        const normalizedDenom = await normalizeDenom(denom, networkContext);
         const balanceResponse = await chainGrpcBankApi.fetchBalance({
             accountAddress: injectiveAddress,
             denom: normalizedDenom
         });
         
-        // Convert to a number (handle decimal conversion based on token's decimal places)
-        const decimals = 18; // Default for INJ, ideally should be fetched from token metadata
+        // Convert to an exact decimal string using the token's decimals from its metadata
+        const { decimals, symbol } = await getTokenMetadata(normalizedDenom, networkContext);
         const balance = balanceResponse && balanceResponse.amount 
-            ? parseFloat(balanceResponse.amount) / Math.pow(10, decimals)
-            : 0;
+            ? fromBaseUnits(balanceResponse.amount, decimals)
+            : "0";
         
         return {
             address: injectiveAddress,
             balance: balance,
-            denom: denom
+            denom: denom,
+            symbol
         };
     } catch (error: any) {
         console.error("Error querying balance:", error);
@@ -340,105 +2000,109 @@ async function queryBalance(denom: string = 'inj') {
     }
 }
 
-async function deployToken(name: string, symbol: string, initialSupply: number, decimals: number = 18) {
+/**
+ * Builds the token factory messages that create a denom, mint its initial supply and set its metadata
+ */
+async function prepareDeployToken(privateKey: PrivateKey, name: string, symbol: string, initialSupply: string, decimals: number) {
+    // Import required modules from Injective SDK
+    const { 
+        MsgCreateDenom, 
+        MsgMint,
+        MsgSetDenomMetadata
+    } = await import('@injectivelabs/sdk-ts');
+    const injectiveAddress = privateKey.toBech32();
+    
+    // Create a subdenom for the token (simple alphanumeric version of symbol)
+    const subdenom = symbol.toLowerCase().replace(/[^a-z0-9]/g, "");
+    
+    console.error(`Creating token with subdenom: ${subdenom}`);
+    
+    // 1. Create the token denom using Token Factory
+    const msgCreateDenom = MsgCreateDenom.fromJSON({
+        subdenom,
+        sender: injectiveAddress
+    });
+    
+    // 2. Prepare the mint message to create initial supply
+    // The denom format is factory/{creator_address}/{subdenom}
+    const factoryDenom = `factory/${injectiveAddress}/${subdenom}`;
+    
+    // Initial supply with decimals
+    const mintAmount = toBaseUnits(initialSupply, decimals);
+    
+    const msgMint = MsgMint.fromJSON({
+        sender: injectiveAddress,
+        amount: {
+            denom: factoryDenom,
+            amount: mintAmount
+        }
+    });
+    
+    // 3. Set token metadata
+    const msgSetDenomMetadata = MsgSetDenomMetadata.fromJSON({
+        sender: injectiveAddress,
+        metadata: {
+            description: `Token created by ${injectiveAddress}`,
+            base: factoryDenom,
+            display: symbol,
+            name: name,
+            symbol: symbol,
+            uri: "",
+            uriHash: "",
+            denomUnits: [
+                {
+                    denom: factoryDenom,
+                    exponent: 0,
+                    aliases: []
+                },
+                {
+                    denom: symbol,
+                    exponent: decimals,
+                    aliases: []
+                }
+            ],
+            // Add required decimals field
+            decimals: decimals
+        }
+    });
+    
+    return {
+        msgs: [msgCreateDenom, msgMint, msgSetDenomMetadata],
+        factoryDenom
+    };
+}
+
+async function deployToken(name: string, symbol: string, initialSupply: string, decimals: number = 18, networkName?: string, from?: string, feeOptions: FeeOptions = {}) {
     try {
-        // Import required modules from Injective SDK
-        const { 
-            PrivateKey,
-            MsgCreateDenom, 
-            MsgMint,
-            MsgSetDenomMetadata,
-            ChainGrpcAuthApi,
-            MsgBroadcasterWithPk
-        } = await import('@injectivelabs/sdk-ts');
-        const { getNetworkEndpoints, Network } = await import('@injectivelabs/networks');
-        
         // Check if wallet exists
         if (!await checkWalletExists()) {
             throw new Error("Wallet not found. Please create a wallet first.");
         }
 
         // Get wallet credentials
-        const walletData = await loadWallet();
-        const privateKey = PrivateKey.fromMnemonic(walletData.mnemonic);
+        const privateKey = await loadPrivateKey(from);
         const injectiveAddress = privateKey.toBech32();
         
-        // Network setup - using testnet for development, use Network.Testnet for production
-        const network = Network.Testnet;
-        const endpoints = getNetworkEndpoints(network);
-        
-        // Initialize required API clients
-        const chainGrpcAuthApi = new ChainGrpcAuthApi(endpoints.grpc);
-        
-        // Create a subdenom for the token (simple alphanumeric version of symbol)
-        const subdenom = symbol.toLowerCase().replace(/[^a-z0-9]/g, "");
+        // Network setup for the selected network
+        const networkContext = await resolveNetwork(networkName);
         
-        console.error(`Creating token with subdenom: ${subdenom}`);
-        
-        // 1. Create the token denom using Token Factory
-        const msgCreateDenom = MsgCreateDenom.fromJSON({
-            subdenom,
-            sender: injectiveAddress
-        });
-        
-        // 2. Prepare the mint message to create initial supply
-        // The denom format is factory/{creator_address}/{subdenom}
-        const factoryDenom = `factory/${injectiveAddress}/${subdenom}`;
-        
-        // Initial supply with decimals
-        const mintAmount = initialSupply * Math.pow(10, decimals);
-        
-        const msgMint = MsgMint.fromJSON({
-            sender: injectiveAddress,
-            amount: {
-                denom: factoryDenom,
-                amount: mintAmount.toString()
-            }
-        });
+        const { msgs, factoryDenom } = await prepareDeployToken(privateKey, name, symbol, initialSupply, decimals);
         
-        // 3. Set token metadata
-        const msgSetDenomMetadata = MsgSetDenomMetadata.fromJSON({
-            sender: injectiveAddress,
-            metadata: {
-                description: `Token created by ${injectiveAddress}`,
-                base: factoryDenom,
-                display: symbol,
-                name: name,
-                symbol: symbol,
-                uri: "",
-                uriHash: "",
-                denomUnits: [
-                    {
-                        denom: factoryDenom,
-                        exponent: 0,
-                        aliases: []
-                    },
-                    {
-                        denom: symbol,
-                        exponent: decimals,
-                        aliases: []
-                    }
-                ],
-                // Add required decimals field
-                decimals: decimals
-            }
-        });
+        // Broadcast all messages in one transaction; nothing is spent besides the fee
+        console.error("Broadcasting transaction...");
+        const tx = await broadcastMsgs(networkContext, privateKey, msgs, `deployment of ${symbol}`, { ...feeOptions, spend: [] });
         
-        // Use MsgBroadcasterWithPk to simplify broadcasting multiple messages
-        const msgBroadcaster = new MsgBroadcasterWithPk({
-            network,
-            privateKey: privateKey.toPrivateKeyHex(),
-            endpoints: endpoints
-        });
+        console.error(`Transaction successful: ${tx.txHash}`);
         
-        // Broadcast all messages in sequence
-        console.error("Broadcasting transaction...");
-        const txResponse = await msgBroadcaster.broadcast({
-            msgs: [msgCreateDenom, msgMint, msgSetDenomMetadata]
+        // Remember the new token's metadata so later transfers don't need to look it up
+        await cacheTokenMetadata(networkContext, {
+            denom: factoryDenom,
+            symbol,
+            name,
+            decimals,
+            source: 'bank'
         });
         
-        console.error(`Transaction successful: ${txResponse.txHash}`);
-        
         // Return token details
         return {
             contractAddress: null, // Token Factory doesn't use contract addresses
@@ -448,7 +2112,7 @@ async function deployToken(name: string, symbol: string, initialSupply: number,
             totalSupply: initialSupply,
             decimals,
             creator: injectiveAddress,
-            txHash: txResponse.txHash
+            tx
         };
     } catch (error: any) {
         console.error("Error deploying token:", error);
@@ -456,425 +2120,1305 @@ async function deployToken(name: string, symbol: string, initialSupply: number,
     }
 }
 
-async function swapToken(fromDenom: string, toDenom: string, amount: number, slippage: number = 1) {
+/**
+ * Reads the bank balance of a denom in base units
+ */
+async function fetchBankBalance(networkContext: NetworkContext, address: string, denom: string): Promise<BigNumber> {
+    const { ChainGrpcBankApi } = await import('@injectivelabs/sdk-ts');
+    const chainGrpcBankApi = new ChainGrpcBankApi(networkContext.endpoints.grpc);
+    const balance = await chainGrpcBankApi.fetchBalance({ accountAddress: address, denom });
+    return new BigNumber(balance?.amount || 0);
+}
+
+/**
+ * Describes the block a transaction was included in and what it cost
+ */
+function formatConfirmation(tx: BroadcastResult): string {
+    return `Transaction Hash: ${tx.txHash}\nBlock: ${tx.height}\nGas Used: ${tx.gasUsed}` +
+        `${tx.estimate ? `\nSimulated Gas: ${tx.estimate.gasUsed} (limit ${tx.estimate.gasLimit})` : ""}` +
+        `${tx.fees.length > 0 ? `\nFee: ${tx.fees.map((fee) => `${fee.amount} ${fee.symbol}`).join(", ")}` : ""}`;
+}
+
+/**
+ * Lists the events a contract emitted, one line per event, followed by a blank line
+ */
+function formatWasmEvents(events: TransactionEvent[]): string {
+    if (events.length === 0) {
+        return "";
+    }
+    const lines = events.map((event) => {
+        const attributes = Object.entries(event.attributes)
+            .filter(([key]) => key !== '_contract_address' && key !== 'msg_index')
+            .map(([key, value]) => `${key}=${value}`);
+        return `- ${event.type}: ${attributes.join(", ")}`;
+    });
+    return `Contract Events:\n${lines.join("\n")}\n\n`;
+}
+
+/**
+ * Uses the deepest level a quote walked to as the chain limit price, widened by the slippage tolerance
+ */
+function swapLimitPrice(quote: SwapQuote, slippage: number): BigNumber {
+    return new BigNumber(quote.chainWorstPrice).times(quote.side === 'buy' ? 1 + slippage / 100 : 1 - slippage / 100);
+}
+
+/**
+ * Reads what a subaccount can trade with in base units: the bank balance for the default subaccount,
+ * the available deposit for the others
+ */
+async function fetchTradingBalance(networkContext: NetworkContext, address: string, subaccountIndex: number, denom: string): Promise<BigNumber> {
+    return subaccountIndex === 0
+        ? fetchBankBalance(networkContext, address, denom)
+        : fetchSubaccountAvailableBalance(networkContext, await toSubaccountId(address, subaccountIndex), denom);
+}
+
+/**
+ * Builds the spot market order for one quoted swap leg and what it can spend at most in base units:
+ * the quantity for sells, the limit price times the quantity plus the taker fee for buys
+ */
+async function prepareSwapOrder(networkContext: NetworkContext, privateKey: PrivateKey, quote: SwapQuote, slippage: number, subaccountIndex: number = 0) {
+    const {
+        MsgCreateSpotMarketOrder,
+        OrderTypeMap
+    } = await import('@injectivelabs/sdk-ts');
+    const injectiveAddress = privateKey.toBech32();
+    
+    const isBuy = quote.side === 'buy';
+    
+    // The quantity (in base units of the base token) is what the quote filled across the book.
+    // Price and quantity are snapped to the market's ticks and checked against its minimum notional.
+    const { price, quantity } = await prepareSpotOrder(
+        networkContext,
+        quote.marketId,
+        quote.side,
+        swapLimitPrice(quote, slippage),
+        quote.chainQuantity
+    );
+    
+    const orderMsg = MsgCreateSpotMarketOrder.fromJSON({
+        injectiveAddress,
+        marketId: quote.marketId,
+        subaccountId: await toSubaccountId(injectiveAddress, subaccountIndex),
+        feeRecipient: injectiveAddress,
+        orderType: isBuy ? OrderTypeMap.BUY : OrderTypeMap.SELL,
+        price,
+        quantity
+    });
+    
+    const spendAmount = isBuy
+        ? new BigNumber(price).times(quantity).times(new BigNumber(1).plus(quote.takerFeeRate)).integerValue(BigNumber.ROUND_UP)
+        : new BigNumber(quantity);
+    
+    return {
+        msgs: [orderMsg],
+        spend: [{ denom: quote.fromDenom, amount: spendAmount.toFixed() }],
+        price,
+        quantity
+    };
+}
+
+/**
+ * Places a spot market order for one quoted swap leg and waits for it to be included
+ */
+async function placeSwapOrder(
+    networkContext: NetworkContext,
+    privateKey: PrivateKey,
+    quote: SwapQuote,
+    slippage: number,
+    subaccountIndex: number = 0,
+    feeOptions: FeeOptions = {}
+): Promise<BroadcastResult> {
+    const { msgs, spend, price, quantity } = await prepareSwapOrder(networkContext, privateKey, quote, slippage, subaccountIndex);
+    const label = quote.ticker || quote.marketId;
+    
+    // Orders from other subaccounts spend their deposits, so the bank balance only has to cover the fee
+    if (subaccountIndex !== 0) {
+        const available = await fetchTradingBalance(networkContext, privateKey.toBech32(), subaccountIndex, quote.fromDenom);
+        if (available.lt(spend[0].amount)) {
+            const { symbol, decimals } = await getTokenMetadata(quote.fromDenom, networkContext);
+            throw new ToolError('INSUFFICIENT_FUNDS',
+                `Cannot send swap order on ${label}: subaccount ${subaccountIndex} has ${fromBaseUnits(available, decimals)} ${symbol} available, ` +
+                `less than ${fromBaseUnits(spend[0].amount, decimals)} ${symbol}`);
+        }
+    }
+    
+    console.error(`Placing ${quote.side} order on ${quote.marketId}: price ${price}, quantity ${quantity}`);
+    
+    return broadcastMsgs(networkContext, privateKey, msgs, `swap order on ${label}`,
+        { ...feeOptions, spend: subaccountIndex === 0 ? spend : [], policySpend: spend });
+}
+
+async function swapToken(
+    fromDenom: string,
+    toDenom: string,
+    amount: string,
+    slippage: number = 1,
+    networkName?: string,
+    from?: string,
+    dryRun: boolean = false,
+    maxPriceImpact?: number,
+    subaccountIndex: number = 0,
+    feeOptions: FeeOptions = {}
+) {
     try {
-        // Import required modules from Injective SDK
-        const { 
-            PrivateKey,
-        } = await import('@injectivelabs/sdk-ts');
+        // Set up network
+        const networkContext = await resolveNetwork(networkName);
         
-        // Dynamic imports to get around type issues
-        const sdkTs = await import('@injectivelabs/sdk-ts');
+        // 1. Resolve the token pair and pick the best route across the spot markets
+        const normalizedFromDenom = await normalizeDenom(fromDenom, networkContext);
+        const normalizedToDenom = await normalizeDenom(toDenom, networkContext);
         
-        // Handle different SDK versions for types
-        // We need to cast to any to avoid TS errors with dynamic imports
-        const OrderType = (sdkTs as any).OrderType || 
-            ((sdkTs as any).OrderTypeMap && { Market: (sdkTs as any).OrderTypeMap.Market });
+        console.error(`Preparing to swap ${amount} ${normalizedFromDenom} to ${normalizedToDenom}`);
         
-        const SpotOrderSide = (sdkTs as any).SpotOrderSide || { Buy: 1, Sell: 2 };
-        const IndexerGrpcSpotApi = (sdkTs as any).IndexerGrpcSpotApi;
-        const ChainGrpcExchangeApi = (sdkTs as any).ChainGrpcExchangeApi;
-        const MsgBroadcasterWithPk = (sdkTs as any).MsgBroadcasterWithPk;
-        const getDefaultSubaccountId = (sdkTs as any).getDefaultSubaccountId;
-        const MsgCreateSpotMarketOrder = (sdkTs as any).MsgCreateSpotMarketOrder;
+        const route = await findBestRoute(networkContext, normalizedFromDenom, normalizedToDenom, amount);
+        console.error(`Using route: ${route.path.join(' -> ')}`);
         
-        const { getNetworkEndpoints, Network } = await import('@injectivelabs/networks');
-        const utils = await import('@injectivelabs/utils');
-        const BigNumberInBase = (utils as any).BigNumberInBase;
+        // Dry runs stop at the quote and never touch the wallet
+        if (dryRun) {
+            return { ...route, isDryRun: true as const };
+        }
         
-        // Check if all required SDK components are available
-        if (!OrderType || !SpotOrderSide || !IndexerGrpcSpotApi || !MsgCreateSpotMarketOrder || 
-            !ChainGrpcExchangeApi || !MsgBroadcasterWithPk || !getDefaultSubaccountId || !BigNumberInBase) {
-            console.error("Required SDK components not found. Falling back to simulation.");
-            return simulateSwap(fromDenom, toDenom, amount, slippage);
+        // Reject the whole route up front if any leg breaks its market's rules, before anything is broadcast
+        for (const leg of route.legs) {
+            assertQuoteExecutable(leg, maxPriceImpact);
+            await prepareSpotOrder(networkContext, leg.marketId, leg.side, swapLimitPrice(leg, slippage), leg.chainQuantity);
         }
         
         // Check if wallet exists
         if (!await checkWalletExists()) {
             throw new Error("Wallet not found. Please create a wallet first.");
         }
+        
+        // Get wallet credentials
+        const privateKey = await loadPrivateKey(from);
+        const injectiveAddress = privateKey.toBech32();
+        
+        // 2. Execute the legs in order. Each leg after the first is re-quoted with what the
+        // previous leg actually delivered, measured as the change in the subaccount's trading balance.
+        const legs: SwapLegResult[] = [];
+        let legInput = amount;
+        
+        for (const [index, market] of route.markets.entries()) {
+            try {
+                const quote = index === 0
+                    ? route.legs[0]
+                    : await quoteMarketSwap(networkContext, market, route.path[index], legInput);
+                if (index > 0) {
+                    assertQuoteExecutable(quote, maxPriceImpact);
+                }
+                
+                const { decimals } = await getTokenMetadata(quote.toDenom, networkContext);
+                const balanceBefore = await fetchTradingBalance(networkContext, injectiveAddress, subaccountIndex, quote.toDenom);
+                const tx = await placeSwapOrder(networkContext, privateKey, quote, slippage, subaccountIndex, feeOptions);
+                const balanceAfter = await fetchTradingBalance(networkContext, injectiveAddress, subaccountIndex, quote.toDenom);
+                
+                console.error(`Leg ${index + 1}/${route.markets.length} successful: ${tx.txHash}`);
+                
+                // The default subaccount trades from the bank balance, which also paid the fee
+                const feePaid = subaccountIndex === 0
+                    ? tx.fees.filter((fee) => fee.denom === quote.toDenom).reduce((total, fee) => total.plus(toBaseUnits(fee.amount, decimals)), new BigNumber(0))
+                    : new BigNumber(0);
+                const receivedAmount = fromBaseUnits(BigNumber.max(balanceAfter.minus(balanceBefore).plus(feePaid), 0), decimals);
+                legs.push({
+                    marketId: quote.marketId,
+                    ticker: quote.ticker,
+                    side: quote.side,
+                    fromDenom: quote.fromDenom,
+                    toDenom: quote.toDenom,
+                    inputAmount: quote.inputAmount,
+                    estimatedOutputAmount: quote.expectedOutputAmount,
+                    receivedAmount,
+                    executionPrice: quote.averagePrice,
+                    priceImpact: quote.priceImpact,
+                    tx
+                });
+                legInput = receivedAmount;
+                
+                if (index < route.markets.length - 1 && new BigNumber(receivedAmount).lte(0)) {
+                    throw new ToolError('NO_FILL', `Order on ${quote.ticker || quote.marketId} did not deliver any ${quote.toDenom}`);
+                }
+            } catch (error: any) {
+                // Earlier legs already settled, so the wallet now holds an intermediate token
+                if (legs.length > 0) {
+                    const completed = legs.map((leg) => `${leg.ticker || leg.marketId} (${leg.tx.txHash})`).join(', ');
+                    throw new ToolError('ROUTE_INCOMPLETE',
+                        `Swap stopped at leg ${index + 1} of ${route.markets.length}: ${error.message}. ` +
+                        `Completed legs: ${completed}. The wallet now holds ${legs[legs.length - 1].receivedAmount} ${route.path[index]}`,
+                        { legs });
+                }
+                throw error;
+            }
+        }
+        
+        // Return swap details, with the expected output taken from the depth-aware route quote
+        return {
+            fromDenom,
+            toDenom,
+            inputAmount: amount,
+            estimatedOutputAmount: route.expectedOutputAmount,
+            receivedAmount: legs[legs.length - 1].receivedAmount,
+            path: route.path,
+            legs,
+            isDryRun: false as const
+        };
+        
+    } catch (error: any) {
+        console.error("Error swapping tokens:", error);
+        throw error;
+    }
+}
+
+/**
+ * Simulates the transaction a transfer-token, deploy-token or swap-token call would send, without signing it,
+ * and checks the balance against what it spends plus the fee. Swaps simulate their first leg; every later
+ * leg is a similar order, so the fee is counted once per leg.
+ */
+async function estimateToolFee(tool: z.infer<typeof EstimateFeeSchema>['tool'], toolArgs: Record<string, unknown>, gasOptions: FeeOptions) {
+    let networkName: string | undefined;
+    let from: string | undefined;
+    let build: (networkContext: NetworkContext, privateKey: PrivateKey) => Promise<{ msgs: any[]; spend: { denom: string; amount: string }[]; legs: number }>;
+    
+    if (tool === "transfer-token") {
+        const { amount, recipient, denom, network, from: fromWallet } = TransferTokenSchema.parse(toolArgs);
+        [networkName, from] = [network, fromWallet];
+        build = async (networkContext, privateKey) => ({
+            ...await prepareTransfer(networkContext, privateKey, recipient, amount, denom),
+            legs: 1
+        });
+    } else if (tool === "deploy-token") {
+        const { name, symbol, initialSupply, decimals, network, from: fromWallet } = DeployTokenSchema.parse(toolArgs);
+        [networkName, from] = [network, fromWallet];
+        build = async (_networkContext, privateKey) => ({
+            msgs: (await prepareDeployToken(privateKey, name, symbol, initialSupply, decimals)).msgs,
+            spend: [],
+            legs: 1
+        });
+    } else {
+        const { fromDenom, toDenom, amount, slippage, subaccountIndex, network, from: fromWallet } = SwapTokenSchema.parse(toolArgs);
+        [networkName, from] = [network, fromWallet];
+        build = async (networkContext, privateKey) => {
+            const route = await findBestRoute(
+                networkContext,
+                await normalizeDenom(fromDenom, networkContext),
+                await normalizeDenom(toDenom, networkContext),
+                amount
+            );
+            const { msgs, spend } = await prepareSwapOrder(networkContext, privateKey, route.legs[0], slippage, subaccountIndex);
+            // Other subaccounts trade from their deposits, so only the fee comes from the bank balance
+            return { msgs, spend: subaccountIndex === 0 ? spend : [], legs: route.legs.length };
+        };
+    }
+    
+    // Check if wallet exists
+    if (!await checkWalletExists()) {
+        throw new Error("Wallet not found. Please create a wallet first.");
+    }
+    
+    const privateKey = await loadPrivateKey(from);
+    const networkContext = await resolveNetwork(networkName);
+    
+    const { msgs, spend, legs } = await build(networkContext, privateKey);
+    const estimate: FeeEstimate = await estimateFee(networkContext, privateKey, msgs, tool, gasOptions);
+    
+    const totalFee = estimate.feeAmount.map((coin) => ({ denom: coin.denom, amount: new BigNumber(coin.amount).times(legs).toFixed() }));
+    const shortfalls = await findShortfalls(networkContext, privateKey.toBech32(), spend, totalFee);
+    
+    return {
+        estimate,
+        legs,
+        totalFee: new BigNumber(estimate.fee.amount).times(legs).toFixed(),
+        shortfalls
+    };
+}
+
+/**
+ * Formats a swap quote for display
+ */
+function formatQuote(quote: SwapQuote): string {
+    const lines = [
+        `- Market: ${quote.ticker || quote.marketId} (${quote.side})`,
+        `- Expected output: ${quote.expectedOutputAmount} ${quote.toDenom}`,
+        `- Filled input: ${quote.filledInputAmount} ${quote.fromDenom}`,
+        `- Average price: ${quote.averagePrice} (best: ${quote.bestPrice}, worst: ${quote.worstPrice})`,
+        `- Price impact: ${quote.priceImpact}%`,
+        `- Fee: ${quote.fee} ${quote.feeDenom} (taker rate ${quote.takerFeeRate})`,
+        `- Orderbook levels used: ${quote.levelsUsed}`
+    ];
+    if (new BigNumber(quote.unfilledInputAmount).gt(0)) {
+        lines.push(`- Unfilled input: ${quote.unfilledInputAmount} ${quote.fromDenom} (not enough liquidity)`);
+    }
+    return lines.join("\n");
+}
+
+/**
+ * Formats a route quote for display, one section per leg
+ */
+function formatRouteQuote(route: RouteQuote): string {
+    const sections = route.legs.map((leg, index) => `Leg ${index + 1}:\n${formatQuote(leg)}`);
+    return [
+        `Route: ${route.path.join(' -> ')}`,
+        `Expected output: ${route.expectedOutputAmount} ${route.toDenom}`,
+        ...sections
+    ].join("\n\n");
+}
+
+// Handle tool execution
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    const outcome = await runConfirmable(name, () => callTool(name, args));
+    if (outcome.status === 'held') {
+        // Preparing the transaction succeeded; the call carries on once confirm-transaction approves it
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: outcome.summary
+                },
+            ],
+        };
+    }
+    return outcome.result;
+});
 
-        // Get wallet credentials
-        const walletData = await loadWallet();
-        const privateKey = PrivateKey.fromMnemonic(walletData.mnemonic);
-        const injectiveAddress = privateKey.toBech32();
-        
-        console.error(`Preparing to swap ${amount} ${fromDenom} to ${toDenom}`);
-        
-        // Set up network and API clients
-        const network = Network.Testnet; // Use Testnet for development, Network.Testnet for production
-        const endpoints = getNetworkEndpoints(network);
-        
-        // Initialize required API clients
-        const indexerGrpcSpotApi = new IndexerGrpcSpotApi(endpoints.indexer);
-        const chainGrpcExchangeApi = new ChainGrpcExchangeApi(endpoints.grpc);
-        
-        // 1. Fetch all available spot markets
-        console.error("Fetching spot markets...");
-        let spotMarkets = [];
-        
-        try {
-            const spotMarketsResponse = await indexerGrpcSpotApi.fetchMarkets();
+async function callTool(name: string, args: Record<string, unknown> | undefined): Promise<CallToolResult> {
+    try {
+        await assertToolEnabled(name);
+
+        if (name === "create-wallet") {
+            const { name: walletName } = CreateWalletSchema.parse(args || {});
+            const { address, isNew } = await createWallet(walletName);
+            if (isNew) {
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `Your Injective wallet "${walletName}" has been successfully created. Address: ${address}`
+                        },
+                    ],
+                };
+            } else {
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `You already have an Injective wallet "${walletName}" with address: ${address}`
+                        },
+                    ],
+                };
+            }
+        } else if (name === "list-wallets") {
+            const wallets = await listWallets();
+            const active = await getActiveAccount();
+            if (wallets.length === 0) {
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: "No wallets found. Use create-wallet to create one."
+                        },
+                    ],
+                };
+            }
+
+            const lines = wallets.map((wallet) => {
+                const accounts = wallet.accounts.map((account) => {
+                    const marker = active && active.wallet === wallet.name && active.index === account.index ? " (active)" : "";
+                    return `  - ${wallet.name}:${account.index} ${account.address}${marker}`;
+                });
+                return `${wallet.name} (created ${wallet.createdAt})\n${accounts.join("\n")}`;
+            });
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Wallets:\n\n${lines.join("\n\n")}`
+                    },
+                ],
+            };
+        } else if (name === "select-wallet") {
+            const { name: walletName, accountIndex } = SelectWalletSchema.parse(args);
+            const account = await selectWallet(walletName, accountIndex);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Active account is now ${account.wallet}:${account.index} (${account.address})`
+                    },
+                ],
+            };
+        } else if (name === "derive-account") {
+            const { wallet, index } = DeriveAccountSchema.parse(args || {});
+            const account = await deriveAccount(wallet, index);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Derived account ${account.wallet}:${account.index} with address ${account.address}`
+                    },
+                ],
+            };
+        } else if (name === "remove-wallet") {
+            const { name: walletName } = RemoveWalletSchema.parse(args);
+            const active = await removeWallet(walletName);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Removed wallet "${walletName}". ` +
+                            (active ? `Active account is now ${active.wallet}:${active.account}.` : "No wallets remain.")
+                    },
+                ],
+            };
+        } else if (name === "import-wallet") {
+            const { name: walletName, secret, type, confirm } = ImportWalletSchema.parse(args);
+            const result = await importWallet(walletName, secret, type, confirm);
+            const summary = `Wallet "${result.name}" (${result.kind})\n` +
+                `- Injective address: ${result.address}\n` +
+                `- Ethereum address: ${result.ethAddress}`;
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: result.saved
+                            ? `Successfully imported ${summary}`
+                            : `Preview of ${summary}\n\nNothing has been stored yet. Call import-wallet again with confirm: true to save it.`
+                    },
+                ],
+            };
+        } else if (name === "export-address") {
+            const { from } = ExportAddressSchema.parse(args || {});
+            const { getEthereumAddress } = await import('@injectivelabs/sdk-ts');
+            const account = await getAccount(from);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Account ${account.wallet}:${account.index}\n` +
+                            `- Bech32: ${account.address}\n` +
+                            `- Hex: ${getEthereumAddress(account.address)}`
+                    },
+                ],
+            };
+        } else if (name === "transfer-token") {
+            const { amount, recipient, denom, network, from, simulate, gasPrice, gasMultiplier } = TransferTokenSchema.parse(args);
+            const result = await transferToken(recipient, amount, denom, network, from, { simulate, gasPrice, gasMultiplier });
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Successfully transferred ${amount} ${denom} from ${result.from} to ${recipient}.\n\n${formatConfirmation(result.tx)}`
+                    },
+                ],
+            };
+        } else if (name === "batch-transfer") {
+            const { transfers, csv, network, from, simulate, gasPrice, gasMultiplier } = BatchTransferSchema.parse(args);
+            const entries = transfers ?? parseTransferCsv(csv!);
             
-            // Safely extract markets based on the response structure
-            if (spotMarketsResponse) {
-                // Try different possible paths based on SDK versions
-                if (Array.isArray(spotMarketsResponse)) {
-                    spotMarkets = spotMarketsResponse;
-                } else if (spotMarketsResponse.markets && Array.isArray(spotMarketsResponse.markets)) {
-                    spotMarkets = spotMarketsResponse.markets;
-                } else if ((spotMarketsResponse as any).data && Array.isArray((spotMarketsResponse as any).data)) {
-                    spotMarkets = (spotMarketsResponse as any).data;
-                }
+            // Check if wallet exists
+            if (!await checkWalletExists()) {
+                throw new Error("Wallet not found. Please create a wallet first.");
             }
-        } catch (error) {
-            console.error("Error fetching markets:", error);
-            return simulateSwap(fromDenom, toDenom, amount, slippage);
-        }
-        
-        if (spotMarkets.length === 0) {
-            console.error("No markets available on Injective");
-            return simulateSwap(fromDenom, toDenom, amount, slippage);
-        }
-        
-        // 2. Find a matching market for our token pair
-        const normalizedFromDenom = normalizeDenom(fromDenom);
-        const normalizedToDenom = normalizeDenom(toDenom);
-        
-        console.error(`Looking for market with ${normalizedFromDenom} and ${normalizedToDenom}`);
-        
-        // Find market by checking if base/quote or quote/base matches our token pair
-        let market = null;
-        for (const m of spotMarkets) {
-            const baseToken = m.baseToken || (m as any).baseDenom || (m as any).baseAsset;
-            const quoteToken = m.quoteToken || (m as any).quoteDenom || (m as any).quoteAsset;
             
-            const baseDenom = typeof baseToken === 'string' ? baseToken : baseToken?.denom;
-            const quoteDenom = typeof quoteToken === 'string' ? quoteToken : quoteToken?.denom;
+            const privateKey = await loadPrivateKey(from);
+            const networkContext = await resolveNetwork(network);
+            const result = await batchTransfer(networkContext, privateKey, entries, { simulate, gasPrice, gasMultiplier });
             
-            if ((baseDenom === normalizedFromDenom && quoteDenom === normalizedToDenom) || 
-                (baseDenom === normalizedToDenom && quoteDenom === normalizedFromDenom)) {
-                market = m;
-                break;
+            const lines = result.transfers.map((transfer, index) =>
+                `${index + 1}. ${transfer.amount} ${transfer.symbol} to ${transfer.recipient}`);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `✅ Sent ${result.transfers.length} transfer(s) from ${result.from} in one transaction\n\n` +
+                            `${lines.join("\n")}\n\n${formatConfirmation(result.tx)}`
+                    },
+                ],
+            };
+        } else if (name === "query-balance") {
+            const { denom, network, from, address } = QueryBalanceSchema.parse(args || {});
+            const result = await queryBalance(denom, network, from, address);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Your wallet (${result.address}) has a balance of ${result.balance} ${result.symbol} (${result.denom})`
+                    },
+                ],
+            };
+        } else if (name === "get-portfolio") {
+            const { includeUsd, network, from } = GetPortfolioSchema.parse(args || {});
+            const networkContext = await resolveNetwork(network);
+            const account = await getAccount(from);
+            const portfolio = await getPortfolio(networkContext, account.address, includeUsd);
+
+            const formatBalance = (balance: PortfolioBalance) =>
+                `${balance.amount} ${balance.symbol}${balance.usdValue !== null ? ` (~$${balance.usdValue})` : ""}`;
+            const sections = [`Portfolio of ${portfolio.address} on ${networkContext.name}`];
+            sections.push(portfolio.bank.length > 0
+                ? `Bank balances:\n${portfolio.bank.map((b) => `- ${formatBalance(b)}\n  Denom: ${b.denom}, decimals: ${b.decimals}`).join("\n")}`
+                : "Bank balances: none");
+            if (portfolio.subaccounts.length > 0) {
+                sections.push(`Subaccount balances:\n${portfolio.subaccounts.map((b) =>
+                    `- ${formatBalance(b)}, ${b.available} available\n  Subaccount: ${b.subaccountId}, denom: ${b.denom}`).join("\n")}`);
             }
-        }
-        
-        if (!market) {
-            console.error(`No market found for token pair ${fromDenom}/${toDenom}`);
-            return simulateSwap(fromDenom, toDenom, amount, slippage);
-        }
-        
-        const marketId = market.marketId || (market as any).id;
-        console.error(`Found market: ${marketId}`);
-        
-        // Extract base and quote information
-        const baseToken = market.baseToken || (market as any).baseDenom || (market as any).baseAsset;
-        const quoteToken = market.quoteToken || (market as any).quoteDenom || (market as any).quoteAsset;
-        
-        const baseDenom = typeof baseToken === 'string' ? baseToken : baseToken?.denom;
-        const quoteDenom = typeof quoteToken === 'string' ? quoteToken : quoteToken?.denom;
-        
-        // 3. Determine if we are buying or selling the base asset
-        const isBuy = baseDenom === normalizedToDenom;
-        const orderSide = isBuy ? SpotOrderSide.Buy : SpotOrderSide.Sell;
-        
-        // 4. Fetch orderbook to get current price
-        console.error(`Fetching orderbook for market ${marketId}...`);
-        let orderbookResponse;
-        let buys = [];
-        let sells = [];
-        
-        try {
-            orderbookResponse = await indexerGrpcSpotApi.fetchOrderbook(marketId);
-            
-            // Safely extract buys and sells based on the response structure
-            if (orderbookResponse) {
-                // Try different possible paths based on SDK versions
-                if (orderbookResponse.buys && Array.isArray(orderbookResponse.buys)) {
-                    buys = orderbookResponse.buys;
-                } else if ((orderbookResponse as any).bids && Array.isArray((orderbookResponse as any).bids)) {
-                    buys = (orderbookResponse as any).bids;
-                }
-                
-                if (orderbookResponse.sells && Array.isArray(orderbookResponse.sells)) {
-                    sells = orderbookResponse.sells;
-                } else if ((orderbookResponse as any).asks && Array.isArray((orderbookResponse as any).asks)) {
-                    sells = (orderbookResponse as any).asks;
-                }
+            sections.push(`Staking:\n` +
+                `- Delegated: ${formatBalance(portfolio.staking.delegated)}\n` +
+                `- Unbonding: ${formatBalance(portfolio.staking.unbonding)}\n` +
+                `- Pending rewards: ${formatBalance(portfolio.staking.rewards)}`);
+            if (portfolio.totalUsdValue !== null) {
+                sections.push(`Total value: ~$${portfolio.totalUsdValue} (tokens without a USD market are not counted)`);
             }
-        } catch (error) {
-            console.error("Error fetching orderbook:", error);
-            return simulateSwap(fromDenom, toDenom, amount, slippage);
-        }
-        
-        // 5. Determine price based on order side and apply slippage
-        let price;
-        
-        if (isBuy) {
-            // When buying, use ask (sell) price + slippage
-            if (sells.length === 0) {
-                console.error("No sell orders in the orderbook");
-                return simulateSwap(fromDenom, toDenom, amount, slippage);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: sections.join("\n\n")
+                    },
+                ],
+            };
+        } else if (name === "get-transaction") {
+            const { hash, network } = GetTransactionSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const tx = await getTransaction(networkContext, hash);
+
+            const sections = [
+                `Transaction ${tx.hash} on ${networkContext.name}\n` +
+                `Status: ${tx.status === "success" ? "✅ success" : `❌ failed (code ${tx.code}${tx.codespace ? `, ${tx.codespace}` : ""})`}\n` +
+                `Block: ${tx.height} at ${tx.timestamp}\n` +
+                `Gas: ${tx.gasUsed} used of ${tx.gasWanted}` +
+                `${tx.fees.length > 0 ? `\nFee: ${tx.fees.map((fee) => `${fee.amount} ${fee.symbol}`).join(", ")}` : ""}` +
+                `${tx.memo ? `\nMemo: ${tx.memo}` : ""}`
+            ];
+            if (tx.failureLog) {
+                sections.push(`Failure log:\n${tx.failureLog}`);
             }
-            
-            const bestAskPrice = new BigNumberInBase(sells[0].price || sells[0].p);
-            price = bestAskPrice.times(1 + slippage / 100);
-        } else {
-            // When selling, use bid (buy) price - slippage
-            if (buys.length === 0) {
-                console.error("No buy orders in the orderbook");
-                return simulateSwap(fromDenom, toDenom, amount, slippage);
+            sections.push(tx.messages.length > 0
+                ? `Messages:\n${tx.messages.map((message) => `- ${message.type}\n  ${JSON.stringify(message.value)}`).join("\n")}`
+                : "Messages: not decoded (the transaction is not indexed by the explorer yet)");
+            if (tx.events.length > 0) {
+                sections.push(`Events:\n${tx.events.map((event) => `- ${event.type} ${JSON.stringify(event.attributes)}`).join("\n")}`);
             }
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: sections.join("\n\n")
+                    },
+                ],
+            };
+        } else if (name === "get-transaction-history") {
+            const { limit, skip, network, from } = GetTransactionHistorySchema.parse(args || {});
+            const networkContext = await resolveNetwork(network);
+            const account = await getAccount(from);
+            const page = await getTransactionHistory(networkContext, account.address, limit, skip);
+
+            const lines = page.transactions.map((tx) =>
+                `- ${tx.status === "success" ? "✅" : "❌"} ${tx.hash}\n` +
+                `  Block ${tx.height} at ${tx.timestamp}: ${tx.messageTypes.join(", ") || "no messages"}` +
+                `${tx.fees.length > 0 ? `\n  Fee: ${tx.fees.map((fee) => `${fee.amount} ${fee.symbol}`).join(", ")}` : ""}` +
+                `${tx.failureLog ? `\n  Failure: ${tx.failureLog}` : ""}`);
+            const nextSkip = page.skip + page.transactions.length;
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: page.transactions.length === 0
+                            ? `No transactions for ${page.address} on ${networkContext.name}${page.skip > 0 ? ` after skipping ${page.skip}` : ""}`
+                            : `Transactions ${page.skip + 1}-${nextSkip} of ${page.total} for ${page.address} on ${networkContext.name}:\n\n${lines.join("\n")}` +
+                              `${nextSkip < page.total ? `\n\nUse skip: ${nextSkip} for the next page.` : ""}`
+                    },
+                ],
+            };
+        } else if (name === "deploy-token") {
+            const { name: tokenName, symbol, initialSupply, decimals, network, from, simulate, gasPrice, gasMultiplier } = DeployTokenSchema.parse(args);
+            const result = await deployToken(tokenName, symbol, initialSupply, decimals, network, from, { simulate, gasPrice, gasMultiplier });
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Successfully deployed token "${tokenName}" (${symbol}) on Injective!\n\n` +
+                            `Denom: ${result.denom}\n` +
+                            `Total Supply: ${initialSupply} ${symbol}\n` +
+                            `Decimals: ${decimals}\n` +
+                            `Creator: ${result.creator}\n\n` +
+                            formatConfirmation(result.tx)
+                    },
+                ],
+            };
+        } else if (name === "mint-token" || name === "burn-token") {
+            const { denom, amount, network, from } = MintTokenSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const privateKey = await loadPrivateKey(from);
+            const result = name === "mint-token"
+                ? await mintToken(networkContext, privateKey, denom, amount)
+                : await burnToken(networkContext, privateKey, denom, amount);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `✅ ${name === "mint-token" ? "Minted" : "Burned"} ${amount} ${result.symbol} (${result.denom})\n\n${formatConfirmation(result.tx)}`
+                    },
+                ],
+            };
+        } else if (name === "update-token-metadata") {
+            const { denom, network, from, ...update } = UpdateTokenMetadataSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const privateKey = await loadPrivateKey(from);
+            const { tx, denom: factoryDenom, metadata } = await updateTokenMetadata(networkContext, privateKey, denom, update);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `✅ Updated the metadata of ${factoryDenom}\n\n` +
+                            `Name: ${metadata.name}\n` +
+                            `Symbol: ${metadata.symbol}\n` +
+                            `Description: ${metadata.description || "(none)"}\n` +
+                            `URI: ${metadata.uri || "(none)"}\n\n` +
+                            formatConfirmation(tx)
+                    },
+                ],
+            };
+        } else if (name === "change-token-admin") {
+            const { denom, newAdmin, network, from } = ChangeTokenAdminSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const privateKey = await loadPrivateKey(from);
+            const result = await changeTokenAdmin(networkContext, privateKey, denom, newAdmin);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `✅ ${newAdmin} is now the admin of ${result.denom}\n\n${formatConfirmation(result.tx)}`
+                    },
+                ],
+            };
+        } else if (name === "list-my-tokens") {
+            const { network, from } = ListMyTokensSchema.parse(args || {});
+            const networkContext = await resolveNetwork(network);
+            const account = await getAccount(from);
+            const tokens = await listCreatedTokens(networkContext, account.address);
             
-            const bestBidPrice = new BigNumberInBase(buys[0].price || buys[0].p);
-            price = bestBidPrice.times(1 - slippage / 100);
-        }
-        
-        console.error(`Using price: ${price.toFixed()} with ${slippage}% slippage`);
-        
-        // 6. Calculate quantity
-        // Convert to base units (considering decimals)
-        let quantity;
-        
-        // Extract decimals safely
-        const baseDecimals = parseInt(
-            typeof baseToken === 'string' ? "18" : 
-            (baseToken?.decimals || (baseToken as any).decimal || "18")
-        );
-        
-        const quoteDecimals = parseInt(
-            typeof quoteToken === 'string' ? "18" : 
-            (quoteToken?.decimals || (quoteToken as any).decimal || "18")
-        );
-        
-        if (isBuy) {
-            // When buying, we're spending the quote token to get the base token
-            // quantity = quote amount / price (in base token)
-            const quoteAmount = new BigNumberInBase(amount).times(10 ** quoteDecimals);
-            quantity = quoteAmount.div(price).times(10 ** (baseDecimals - quoteDecimals));
-        } else {
-            // When selling, we're selling the base token to get the quote token
-            // quantity = base amount (in base token)
-            quantity = new BigNumberInBase(amount).times(10 ** baseDecimals);
-        }
-        
-        console.error(`Order quantity: ${quantity.toFixed()}`);
-        
-        // 7. Get subaccount ID (derivation of user's address as a hex string)
-        const subaccountId = getDefaultSubaccountId(injectiveAddress);
-        
-        console.error(`Using subaccount ID: ${subaccountId}`);
-        
-        // 8. Create market order
-        // Try to accommodate different SDK versions by checking format
-        const msgParams = {
-            sender: injectiveAddress,
-            marketId: marketId,
-            subaccountId: subaccountId,
-            orderType: OrderType.Market,
-            orderSide: orderSide,
-            price: price.toFixed(),
-            quantity: quantity.toFixed(),
-            timeInForce: 3, // Immediate or cancel
-            triggerPrice: "0" // Not used for market orders
-        };
-        
-        let orderMsg;
-        try {
-            // Try different ways to create the message based on SDK version
-            if (typeof MsgCreateSpotMarketOrder.fromJSON === 'function') {
-                orderMsg = MsgCreateSpotMarketOrder.fromJSON(msgParams);
-            } else if (typeof MsgCreateSpotMarketOrder === 'function') {
-                orderMsg = new MsgCreateSpotMarketOrder(msgParams);
-            } else {
-                throw new Error("Cannot create spot market order message");
+            const lines = tokens.map((token) => `- ${token.symbol} (${token.name}): supply ${token.supply}, ${token.decimals} decimals\n` +
+                `  Denom: ${token.denom}\n` +
+                `  Admin: ${token.admin === account.address ? "this wallet" : token.admin ?? "renounced"}`);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: tokens.length > 0
+                            ? `Tokens created by ${account.address} on ${networkContext.name}:\n\n${lines.join("\n")}`
+                            : `${account.address} has not created any tokens on ${networkContext.name}`
+                    },
+                ],
+            };
+        } else if (name === "store-code") {
+            const { wasmPath, network, from } = StoreCodeSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const privateKey = await loadPrivateKey(from);
+            const result = await storeCode(networkContext, privateKey, wasmPath);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `✅ Stored ${wasmPath} (${result.size} bytes)\n\n` +
+                            `Code ID: ${result.codeId}\n` +
+                            `${result.checksum ? `Checksum: ${result.checksum}\n` : ""}\n` +
+                            formatConfirmation(result.tx)
+                    },
+                ],
+            };
+        } else if (name === "instantiate-contract") {
+            const { codeId, label, msg, admin, funds, network, from } = InstantiateContractSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const privateKey = await loadPrivateKey(from);
+            const result = await instantiateContract(networkContext, privateKey, codeId, label, msg, { admin, funds });
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `✅ Instantiated code ${codeId} as "${label}"\n\n` +
+                            `Contract Address: ${result.contractAddress}\n` +
+                            `Admin: ${result.admin}\n\n` +
+                            `${formatWasmEvents(result.wasmEvents)}${formatConfirmation(result.tx)}`
+                    },
+                ],
+            };
+        } else if (name === "execute-contract") {
+            const { contract, msg, funds, network, from } = ExecuteContractSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const privateKey = await loadPrivateKey(from);
+            const result = await executeContract(networkContext, privateKey, contract, msg, funds);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `✅ Executed ${Object.keys(msg).join(", ")} on ${contract}\n\n` +
+                            `${formatWasmEvents(result.wasmEvents)}${formatConfirmation(result.tx)}`
+                    },
+                ],
+            };
+        } else if (name === "query-contract-smart") {
+            const { contract, query, network } = QueryContractSmartSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const response = await queryContractSmart(networkContext, contract, query);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: JSON.stringify(response, null, 2)
+                    },
+                ],
+            };
+        } else if (name === "migrate-contract") {
+            const { contract, codeId, msg, network, from } = MigrateContractSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const privateKey = await loadPrivateKey(from);
+            const result = await migrateContract(networkContext, privateKey, contract, codeId, msg);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `✅ Migrated ${contract} to code ${codeId}\n\n${formatWasmEvents(result.wasmEvents)}${formatConfirmation(result.tx)}`
+                    },
+                ],
+            };
+        } else if (name === "deploy-cw20") {
+            const { codeId, name: tokenName, symbol, initialSupply, decimals, network, from } = DeployCw20Schema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const privateKey = await loadPrivateKey(from);
+            const result = await deployCw20(networkContext, privateKey, codeId, tokenName, symbol, initialSupply, decimals);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `✅ Deployed CW20 token "${tokenName}" (${symbol})\n\n` +
+                            `Contract Address: ${result.contractAddress}\n` +
+                            `Total Supply: ${initialSupply} ${symbol}\n` +
+                            `Decimals: ${decimals}\n` +
+                            `Minter: ${privateKey.toBech32()}\n\n` +
+                            formatConfirmation(result.tx)
+                    },
+                ],
+            };
+        } else if (name === "transfer-cw20") {
+            const { contract, recipient, amount, network, from } = TransferCw20Schema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const privateKey = await loadPrivateKey(from);
+            const result = await transferCw20(networkContext, privateKey, contract, recipient, amount);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `✅ Transferred ${amount} ${result.token.symbol} to ${recipient}\n\n${formatConfirmation(result.tx)}`
+                    },
+                ],
+            };
+        } else if (name === "swap-token") {
+            const { fromDenom, toDenom, amount, slippage, network, from, dryRun, maxPriceImpact, subaccountIndex, simulate, gasPrice, gasMultiplier } = SwapTokenSchema.parse(args);
+            if (!dryRun) {
+                await assertSlippageAllowed(slippage);
             }
-        } catch (error) {
-            console.error("Error creating market order message:", error);
-            return simulateSwap(fromDenom, toDenom, amount, slippage);
-        }
-        
-        // 9. Broadcast the transaction
-        console.error("Broadcasting transaction...");
-        let txResponse;
-        
-        try {
-            const msgBroadcaster = new MsgBroadcasterWithPk({
-                network,
-                privateKey: privateKey.toPrivateKeyHex(),
-                endpoints: endpoints
-            });
+            const result = await swapToken(fromDenom, toDenom, amount, slippage ? parseFloat(slippage.toString()) : 1, network, from, dryRun, maxPriceImpact, subaccountIndex, { simulate, gasPrice, gasMultiplier });
             
-            txResponse = await msgBroadcaster.broadcast({
-                msgs: [orderMsg]
-            });
-        } catch (error) {
-            console.error("Error broadcasting transaction:", error);
-            return simulateSwap(fromDenom, toDenom, amount, slippage);
-        }
-        
-        console.error(`Transaction successful: ${txResponse.txHash}`);
-        
-        // 10. Calculate estimated output amount
-        const estimatedOutputAmount = isBuy 
-            ? quantity.div(10 ** baseDecimals).toNumber() 
-            : quantity.times(price).div(10 ** quoteDecimals).toNumber();
-        
-        // Return swap details
-        return {
-            fromDenom,
-            toDenom,
-            inputAmount: amount,
-            estimatedOutputAmount,
-            executionPrice: price.div(10 ** (quoteDecimals - baseDecimals)).toNumber(),
-            txHash: txResponse.txHash,
-            marketId: marketId,
-            orderSide: isBuy ? 'buy' : 'sell',
-            isSimulated: false // This is a real swap, not a simulation
-        };
-        
-    } catch (error: any) {
-        console.error("Error swapping tokens:", error);
-        
-        // For debugging purposes only - in production, remove this
-        if (error.message) {
-            console.error(`Error details: ${error.message}`);
-            if (error.stack) {
-                console.error(`Stack trace: ${error.stack}`);
+            let message = "";
+            
+            if (result.isDryRun) {
+                message = `DRY RUN (nothing was broadcast): quote for swapping ${result.inputAmount} ${fromDenom} to ${toDenom}\n\n${formatRouteQuote(result)}`;
+            } else {
+                const legLines = result.legs.map((leg, index) =>
+                    `Leg ${index + 1}: ${leg.inputAmount} ${leg.fromDenom} -> ${leg.receivedAmount} ${leg.toDenom} on ${leg.ticker || leg.marketId} (${leg.side})\n` +
+                    `- Estimated Output: ${leg.estimatedOutputAmount}\n- Average Price: ${leg.executionPrice}\n- Price Impact: ${leg.priceImpact}%\n- Transaction Hash: ${leg.tx.txHash} (block ${leg.tx.height})`);
+                message = `✅ Successfully swapped ${result.inputAmount} ${result.fromDenom} to ${result.receivedAmount} ${result.toDenom} (estimated ${result.estimatedOutputAmount})\n\nRoute: ${result.path.join(' -> ')}\n\n${legLines.join("\n\n")}`;
             }
-        }
-        
-        // Fall back to simulation if the real implementation fails
-        console.error("Falling back to simulation mode due to error");
-        return simulateSwap(fromDenom, toDenom, amount, slippage);
-    }
-}
-
-/**
- * Normalizes a token denom by removing any prefix like 'factory/' if present
- */
-function normalizeDenom(denom: string): string {
-    // For factory tokens, we might need to handle the format 'factory/{creator address}/{subdenom}'
-    if (denom.startsWith('factory/') || denom.startsWith('ibc/')) {
-        return denom;
-    }
-    
-    // For common tokens like INJ, we can handle special cases
-    if (denom.toUpperCase() === 'INJ') {
-        return 'inj';
-    }
-    
-    // Default case, return as is
-    return denom;
-}
-
-/**
- * Simulates a token swap when the real implementation fails
- */
-function simulateSwap(fromDenom: string, toDenom: string, amount: number, slippage: number = 1): any {
-    console.log(`SIMULATING SWAP: ${amount} ${fromDenom} to ${toDenom} with ${slippage}% slippage`);
-    
-    // Generate a mock price (this would be replaced by actual market data in a real implementation)
-    const mockPrice = Math.random() * 10 + 1; // Random price between 1 and 11
-    const estimatedOutput = amount * mockPrice * (1 - slippage/100);
-    
-    // Generate a mock transaction hash
-    const mockTxHash = "0x" + Array.from({length: 64}, () => Math.floor(Math.random() * 16).toString(16)).join('');
-    
-    // Return simulated swap details
-    return {
-        fromDenom,
-        toDenom,
-        inputAmount: amount,
-        estimatedOutputAmount: estimatedOutput,
-        executionPrice: mockPrice,
-        txHash: mockTxHash,
-        marketId: "mock-market-id", 
-        orderSide: 'buy',
-        isSimulated: true // Flag to indicate this is a simulation
-    };
-}
-
-// Handle tool execution
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
-    try {
-        if (name === "create-wallet") {
-            const { address, isNew } = await createWallet();
-            if (isNew) {
+            
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: message
+                    },
+                ],
+            };
+        } else if (name === "confirm-transaction") {
+            const { token } = ConfirmTransactionSchema.parse(args);
+            // The held tool call finishes with its own result, or holds its next transaction, such as a later swap leg
+            const outcome = await resumeHeldTransaction(token);
+            if (outcome.status === 'held') {
                 return {
                     content: [
                         {
                             type: "text",
-                            text: `Your Injective wallet has been successfully created. Address: ${address}`
+                            text: outcome.summary
                         },
                     ],
                 };
-            } else {
+            }
+            return outcome.result as CallToolResult;
+        } else if (name === "estimate-fee") {
+            const { tool, arguments: toolArgs, gasPrice, gasMultiplier } = EstimateFeeSchema.parse(args);
+            const result = await estimateToolFee(tool, toolArgs, { gasPrice, gasMultiplier });
+            const { estimate } = result;
+            
+            const lines = [
+                `Fee estimate for ${tool} (simulated, nothing was signed or broadcast)`,
+                ``,
+                `Simulated Gas: ${estimate.gasUsed}`,
+                `Gas Limit: ${estimate.gasLimit} (x${estimate.gasMultiplier})`,
+                `Gas Price: ${estimate.gasPrice}`,
+                `Fee: ${estimate.fee.amount} ${estimate.fee.symbol}`
+            ];
+            if (result.legs > 1) {
+                lines.push(`Total Fee: ${result.totalFee} ${estimate.fee.symbol} for ${result.legs} legs, each simulated like the first`);
+            }
+            lines.push(``, result.shortfalls.length === 0
+                ? `✅ Balance covers the amount plus the fee`
+                : `❌ Insufficient funds: ${result.shortfalls.join("; ")}`);
+            
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: lines.join("\n")
+                    },
+                ],
+            };
+        } else if (name === "get-quote") {
+            const { fromDenom, toDenom, amount, network } = GetQuoteSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const route = await findBestRoute(
+                networkContext,
+                await normalizeDenom(fromDenom, networkContext),
+                await normalizeDenom(toDenom, networkContext),
+                amount
+            );
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Quote for swapping ${amount} ${fromDenom} to ${toDenom}:\n\n${formatRouteQuote(route)}`
+                    },
+                ],
+            };
+        } else if (name === "place-limit-order") {
+            const { network, from, ...order } = PlaceLimitOrderSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const result = await placeSpotLimitOrder(networkContext, await loadPrivateKey(from), order);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `✅ Placed ${result.postOnly ? "post-only " : ""}${result.timeInForce} ${result.side} order on ${result.ticker || result.marketId}\n\n` +
+                            `Price: ${result.price}\n` +
+                            `Quantity: ${result.quantity}\n` +
+                            `Client Order ID: ${result.cid}\n` +
+                            `Market ID: ${result.marketId}\n` +
+                            formatConfirmation(result.tx)
+                    },
+                ],
+            };
+        } else if (name === "cancel-order") {
+            const { network, from, subaccountIndex, ...order } = CancelOrderSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const tx = await cancelSpotOrder(networkContext, await loadPrivateKey(from), order, subaccountIndex);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `✅ Cancelled order ${order.orderHash ?? order.cid} on ${order.market}\n\n${formatConfirmation(tx)}`
+                    },
+                ],
+            };
+        } else if (name === "batch-cancel-orders") {
+            const { orders, market, subaccountIndex, network, from } = BatchCancelOrdersSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const privateKey = await loadPrivateKey(from);
+
+            const toCancel = orders ?? (await listOpenSpotOrders(networkContext, privateKey.toBech32(), market, subaccountIndex))
+                .map((order) => ({ market: order.marketId, orderHash: order.orderHash }));
+            if (toCancel.length === 0) {
                 return {
                     content: [
                         {
                             type: "text",
-                            text: `You already have an Injective wallet with address: ${address}`
+                            text: `No open orders to cancel on ${market}`
                         },
                     ],
                 };
             }
-        } else if (name === "transfer-token") {
-            const { amount, recipient, denom } = TransferTokenSchema.parse(args);
-            const result = await transferToken(recipient, amount, denom);
+
+            const tx = await batchCancelSpotOrders(networkContext, privateKey, toCancel, subaccountIndex);
             return {
                 content: [
                     {
                         type: "text",
-                        text: `Successfully transferred ${amount} ${denom} from ${result.from} to ${recipient}. Transaction hash: ${result.transactionHash}`
+                        text: `✅ Cancelled ${toCancel.length} order(s)\n\n${formatConfirmation(tx)}`
                     },
                 ],
             };
-        } else if (name === "query-balance") {
-            const { denom } = QueryBalanceSchema.parse(args || {});
-            const result = await queryBalance(denom);
+        } else if (name === "list-open-orders") {
+            const { market, subaccountIndex, network, from } = ListOpenOrdersSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const account = await getAccount(from);
+            const orders = await listOpenSpotOrders(networkContext, account.address, market, subaccountIndex);
+
+            const lines = orders.map((order) =>
+                `- ${order.ticker || order.marketId} ${order.side} ${order.unfilledQuantity}/${order.quantity} @ ${order.price} (${order.state})\n` +
+                `  Order Hash: ${order.orderHash}${order.cid ? `\n  Client Order ID: ${order.cid}` : ""}\n  Created: ${order.createdAt}`);
             return {
                 content: [
                     {
                         type: "text",
-                        text: `Your wallet (${result.address}) has a balance of ${result.balance} ${result.denom}`
+                        text: orders.length === 0
+                            ? `No open orders for ${account.address} in subaccount ${subaccountIndex}`
+                            : `Open orders for ${account.address} in subaccount ${subaccountIndex} (unfilled/total quantity @ price):\n\n${lines.join("\n")}`
                     },
                 ],
             };
-        } else if (name === "deploy-token") {
-            const { name: tokenName, symbol, initialSupply, decimals } = DeployTokenSchema.parse(args);
-            const result = await deployToken(tokenName, symbol, initialSupply, decimals);
+        } else if (name === "subaccount-deposit" || name === "subaccount-withdraw") {
+            const { subaccountIndex, amount, denom, network, from } = SubaccountMovementSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const privateKey = await loadPrivateKey(from);
+            const result = name === "subaccount-deposit"
+                ? await depositToSubaccount(networkContext, privateKey, subaccountIndex, amount, denom)
+                : await withdrawFromSubaccount(networkContext, privateKey, subaccountIndex, amount, denom);
             return {
                 content: [
                     {
                         type: "text",
-                        text: `Successfully deployed token "${tokenName}" (${symbol}) on Injective!\n\n` +
-                            `Denom: ${result.denom}\n` +
-                            `Total Supply: ${initialSupply} ${symbol}\n` +
-                            `Decimals: ${decimals}\n` +
-                            `Creator: ${result.creator}\n` +
-                            `Transaction Hash: ${result.txHash}`
+                        text: name === "subaccount-deposit"
+                            ? `✅ Deposited ${amount} ${result.symbol} into subaccount ${subaccountIndex}\n\n${formatConfirmation(result.tx)}`
+                            : `✅ Withdrew ${amount} ${result.symbol} from subaccount ${subaccountIndex}\n\n${formatConfirmation(result.tx)}`
                     },
                 ],
             };
-        } else if (name === "swap-token") {
-            const { fromDenom, toDenom, amount, slippage } = SwapTokenSchema.parse(args);
-            const result = await swapToken(fromDenom, toDenom, parseFloat(amount.toString()), slippage ? parseFloat(slippage.toString()) : 1);
-            
-            let message = "";
-            
-            if (result.isSimulated) {
-                message = `✅ SIMULATED SWAP ONLY: ${result.inputAmount} ${result.fromDenom} to approximately ${result.estimatedOutputAmount.toFixed(6)} ${result.toDenom} at price ${result.executionPrice.toFixed(6)}\n\nNote: This is a simulated result. In a production environment, this would execute a real swap on Injective.`;
-            } else {
-                message = `✅ Successfully swapped ${result.inputAmount} ${result.fromDenom} to approximately ${result.estimatedOutputAmount.toFixed(6)} ${result.toDenom}\n\nDetails:\n- Price: ${result.executionPrice.toFixed(6)}\n- Market ID: ${result.marketId}\n- Order Side: ${result.orderSide}\n- Transaction Hash: ${result.txHash}`;
+        } else if (name === "subaccount-transfer") {
+            const { fromIndex, toIndex, amount, denom, network, from } = SubaccountTransferSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const result = await transferBetweenSubaccounts(networkContext, await loadPrivateKey(from), fromIndex, toIndex, amount, denom);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `✅ Moved ${amount} ${result.symbol} from subaccount ${fromIndex} to subaccount ${toIndex}\n\n${formatConfirmation(result.tx)}`
+                    },
+                ],
+            };
+        } else if (name === "list-subaccounts") {
+            const { network, from } = ListSubaccountsSchema.parse(args || {});
+            const networkContext = await resolveNetwork(network);
+            const account = await getAccount(from);
+            const subaccounts = await listSubaccounts(networkContext, account.address);
+
+            const sections = subaccounts.map((subaccount) =>
+                `Subaccount ${subaccount.index} (${subaccount.subaccountId}):\n` +
+                subaccount.balances.map((b) => `- ${b.total} ${b.symbol}, ${b.available} available\n  Denom: ${b.denom}`).join("\n"));
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: subaccounts.length === 0
+                            ? `No subaccount deposits for ${account.address} on ${networkContext.name}`
+                            : `Subaccounts of ${account.address} on ${networkContext.name} (total, available):\n\n${sections.join("\n\n")}`
+                    },
+                ],
+            };
+        } else if (name === "list-derivative-markets") {
+            const { query, network } = ListDerivativeMarketsSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const markets = (await fetchPerpetualMarkets(networkContext))
+                .filter((market) => !query || market.ticker.toUpperCase().includes(query.toUpperCase()));
+
+            const lines = markets.map((market) =>
+                `- ${market.ticker} (${market.marketId})\n  Max leverage: ${maxLeverage(market).toFixed(2)}x, maker fee: ${market.makerFeeRate}, taker fee: ${market.takerFeeRate}`);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: markets.length === 0
+                            ? `No perpetual markets found on ${networkContext.name}${query ? ` matching ${query}` : ""}`
+                            : `Perpetual markets on ${networkContext.name}:\n\n${lines.join("\n")}`
+                    },
+                ],
+            };
+        } else if (name === "get-derivative-market") {
+            const { market, network } = GetDerivativeMarketSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const summary = await getDerivativeMarketSummary(networkContext, await resolvePerpetualMarket(networkContext, market));
+            const { symbol } = await getTokenMetadata(summary.quoteDenom, networkContext);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `${summary.ticker} (${summary.marketId})\n\n` +
+                            `Mark Price: ${summary.markPrice} ${symbol}\n` +
+                            `Last Funding Rate: ${summary.lastFundingRate !== null ? `${summary.lastFundingRate}% per hour` : "none yet"}\n` +
+                            `Funding Rate Cap: ${summary.hourlyFundingRateCap}% per hour\n` +
+                            `Next Funding: ${summary.nextFundingTime ?? "unknown"}\n` +
+                            `Max Leverage: ${summary.maxLeverage}x\n` +
+                            `Initial Margin Ratio: ${summary.initialMarginRatio}\n` +
+                            `Maintenance Margin Ratio: ${summary.maintenanceMarginRatio}\n` +
+                            `Fees: maker ${summary.makerFeeRate}, taker ${summary.takerFeeRate}\n` +
+                            `Ticks: price ${summary.minPriceTickSize} ${symbol}, quantity ${summary.minQuantityTickSize} contracts`
+                    },
+                ],
+            };
+        } else if (name === "get-positions") {
+            const { market, subaccountIndex, network, from } = GetPositionsSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const account = await getAccount(from);
+            const positions = await listPositions(
+                networkContext,
+                account.address,
+                market ? await resolvePerpetualMarket(networkContext, market) : undefined,
+                subaccountIndex
+            );
+
+            const lines = positions.map((position) =>
+                `- ${position.ticker} ${position.direction} ${position.quantity} contracts\n` +
+                `  Entry: ${position.entryPrice}, Mark: ${position.markPrice}, Liquidation: ${position.liquidationPrice}\n` +
+                `  Margin: ${position.margin}, Leverage: ${position.effectiveLeverage}x, Unrealized PnL: ${position.unrealizedPnl}`);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: positions.length === 0
+                            ? `No open positions for ${account.address} in subaccount ${subaccountIndex}`
+                            : `Open positions for ${account.address} in subaccount ${subaccountIndex}:\n\n${lines.join("\n")}`
+                    },
+                ],
+            };
+        } else if (name === "open-position") {
+            const { network, from, ...request } = OpenPositionSchema.parse(args);
+            await assertSlippageAllowed(request.slippage);
+            const networkContext = await resolveNetwork(network);
+            const result = await openPosition(networkContext, await loadPrivateKey(from), request);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `✅ Opened ${result.direction} ${result.quantity} contracts on ${result.ticker}\n\n` +
+                            `Expected Average Price: ${result.averagePrice}\n` +
+                            `Worst Price (with slippage): ${result.worstPrice}\n` +
+                            `Margin: ${result.margin}\n` +
+                            `Leverage: ${result.leverage}x\n` +
+                            `Estimated Liquidation Price: ${result.estimatedLiquidationPrice}\n` +
+                            formatConfirmation(result.tx)
+                    },
+                ],
+            };
+        } else if (name === "reduce-position" || name === "close-position") {
+            // Closing is reducing by the whole position
+            const { market, quantity, slippage, subaccountIndex, network, from } = name === "reduce-position"
+                ? ReducePositionSchema.parse(args)
+                : { ...ClosePositionSchema.parse(args), quantity: undefined };
+            await assertSlippageAllowed(slippage);
+            const networkContext = await resolveNetwork(network);
+            const result = await reducePosition(networkContext, await loadPrivateKey(from), market, quantity, slippage, subaccountIndex);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `✅ Closed ${result.closedQuantity} contracts of the ${result.direction} position on ${result.ticker}\n\n` +
+                            `Remaining: ${result.remainingQuantity} contracts\n` +
+                            `Expected Average Price: ${result.averagePrice}\n` +
+                            `Worst Price (with slippage): ${result.worstPrice}\n` +
+                            `Estimated Realized PnL: ${result.estimatedRealizedPnl}\n` +
+                            formatConfirmation(result.tx)
+                    },
+                ],
+            };
+        } else if (name === "list-markets") {
+            const { type, token, network } = ListMarketsSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const markets = await listMarkets(
+                networkContext,
+                type === "all" ? undefined : type,
+                token,
+                // Ambiguous symbols still match by ticker
+                token ? await normalizeDenom(token, networkContext).catch(() => undefined) : undefined
+            );
+
+            const lines = markets.map((market) => `- ${market.ticker} [${market.kind}] ${market.marketId}`);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: markets.length === 0
+                            ? `No markets found on ${networkContext.name}${token ? ` trading ${token}` : ""}`
+                            : `${markets.length} market(s) on ${networkContext.name}:\n\n${lines.join("\n")}`
+                    },
+                ],
+            };
+        } else if (name === "get-orderbook") {
+            const { market, depth, network } = GetOrderbookSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const orderbook = await getOrderbook(networkContext, market, depth);
+
+            const formatLevels = (levels: { price: string; quantity: string }[]) => levels.length === 0
+                ? "  (empty)"
+                : levels.map((level) => `  ${level.price} x ${level.quantity}`).join("\n");
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Orderbook for ${orderbook.ticker} (${orderbook.marketId}), price x quantity:\n\n` +
+                            `Best Bid: ${orderbook.bestBid ?? "none"}\n` +
+                            `Best Ask: ${orderbook.bestAsk ?? "none"}\n` +
+                            `Mid Price: ${orderbook.midPrice ?? "n/a"}\n` +
+                            `Spread: ${orderbook.spread !== null ? `${orderbook.spread}%` : "n/a"}\n\n` +
+                            `Asks (lowest first):\n${formatLevels(orderbook.asks)}\n\n` +
+                            `Bids (highest first):\n${formatLevels(orderbook.bids)}`
+                    },
+                ],
+            };
+        } else if (name === "get-ticker") {
+            const { market, network } = GetTickerSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const ticker = await getTicker(networkContext, market);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `${ticker.ticker} (${ticker.marketId})\n\n` +
+                            `Last Price: ${ticker.lastPrice ?? "no trades yet"}\n` +
+                            `Best Bid: ${ticker.bestBid ?? "none"}\n` +
+                            `Best Ask: ${ticker.bestAsk ?? "none"}\n` +
+                            `24h Open: ${ticker.open24h ?? "unavailable"}\n` +
+                            `24h High: ${ticker.high24h ?? "unavailable"}\n` +
+                            `24h Low: ${ticker.low24h ?? "unavailable"}\n` +
+                            `24h Volume: ${ticker.volume24h ?? "unavailable"}\n` +
+                            `24h Change: ${ticker.change24h !== null ? `${ticker.change24h}%` : "unavailable"}`
+                    },
+                ],
+            };
+        } else if (name === "get-recent-trades") {
+            const { market, limit, network } = GetRecentTradesSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const trades = await getRecentTrades(networkContext, market, limit);
+
+            const lines = trades.map((trade) => `- ${trade.executedAt} ${trade.direction} ${trade.quantity} @ ${trade.price}`);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: trades.length === 0
+                            ? `No trades yet on ${market}`
+                            : `Recent trades on ${market} (quantity @ price):\n\n${lines.join("\n")}`
+                    },
+                ],
+            };
+        } else if (name === "list-validators") {
+            const { includeInactive, limit, network } = ListValidatorsSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const validators = (await listValidators(networkContext, includeInactive)).slice(0, limit);
+
+            const lines = validators.map((validator) =>
+                `- ${validator.moniker} (${validator.operatorAddress})\n` +
+                `  ${validator.tokens} INJ staked, ${validator.votingPower}% voting power, ${validator.commissionRate}% commission` +
+                `${validator.jailed ? ", jailed" : validator.status !== "Bonded" ? `, ${validator.status}` : ""}`);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Validators on ${networkContext.name}:\n\n${lines.join("\n")}`
+                    },
+                ],
+            };
+        } else if (name === "delegate" || name === "undelegate") {
+            const { validator, amount, network, from } = DelegateSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const privateKey = await loadPrivateKey(from);
+            const tx = name === "delegate"
+                ? await delegate(networkContext, privateKey, validator, amount)
+                : await undelegate(networkContext, privateKey, validator, amount);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: name === "delegate"
+                            ? `✅ Delegated ${amount} INJ to ${validator}\n\n${formatConfirmation(tx)}`
+                            : `✅ Started unbonding ${amount} INJ from ${validator}. The tokens are returned after the unbonding period.\n\n${formatConfirmation(tx)}`
+                    },
+                ],
+            };
+        } else if (name === "redelegate") {
+            const { srcValidator, dstValidator, amount, network, from } = RedelegateSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const tx = await redelegate(networkContext, await loadPrivateKey(from), srcValidator, dstValidator, amount);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `✅ Redelegated ${amount} INJ from ${srcValidator} to ${dstValidator}\n\n${formatConfirmation(tx)}`
+                    },
+                ],
+            };
+        } else if (name === "claim-rewards") {
+            const { validator, network, from } = ClaimRewardsSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const result = await claimRewards(networkContext, await loadPrivateKey(from), validator);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `✅ Claimed about ${result.amount} INJ in rewards from ${result.validators.length} validator(s)\n\n${formatConfirmation(result.tx)}`
+                    },
+                ],
+            };
+        } else if (name === "get-staking-position") {
+            const { network, from } = GetStakingPositionSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const account = await getAccount(from);
+            const position = await getStakingPosition(networkContext, account.address);
+
+            const sections = [
+                `Staking position of ${position.address}`,
+                `Delegated: ${position.totalDelegated} INJ\nUnbonding: ${position.totalUnbonding} INJ\nPending Rewards: ${position.totalRewards} INJ`
+            ];
+            if (position.delegations.length > 0) {
+                sections.push(`Delegations:\n${position.delegations.map((d) => `- ${d.amount} INJ with ${d.moniker || d.validatorAddress} (${d.validatorAddress})`).join("\n")}`);
+            }
+            if (position.unbonding.length > 0) {
+                sections.push(`Unbonding:\n${position.unbonding.map((u) => `- ${u.amount} INJ from ${u.moniker || u.validatorAddress}, completes ${u.completionTime}`).join("\n")}`);
+            }
+            if (position.rewards.length > 0) {
+                sections.push(`Rewards:\n${position.rewards.map((r) => `- ${r.amount} INJ from ${r.moniker || r.validatorAddress}`).join("\n")}`);
             }
-            
             return {
                 content: [
                     {
                         type: "text",
-                        text: message
+                        text: sections.join("\n\n")
+                    },
+                ],
+            };
+        } else if (name === "list-proposals") {
+            const { status, limit, network } = ListProposalsSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const proposals = await listProposals(networkContext, status, limit);
+
+            const lines = proposals.map((proposal) =>
+                `- #${proposal.proposalId} ${proposal.title} [${proposal.status}]` +
+                `${proposal.votingEndTime ? `\n  Voting ends: ${proposal.votingEndTime}` : ""}` +
+                `${proposal.summary ? `\n  ${proposal.summary.length > 200 ? `${proposal.summary.slice(0, 200)}...` : proposal.summary}` : ""}`);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: proposals.length === 0
+                            ? `No proposals in ${status} status on ${networkContext.name}`
+                            : `Proposals in ${status} status on ${networkContext.name}:\n\n${lines.join("\n")}`
+                    },
+                ],
+            };
+        } else if (name === "vote") {
+            const { proposalId, option, metadata, network, from } = VoteSchema.parse(args);
+            const networkContext = await resolveNetwork(network);
+            const result = await vote(networkContext, await loadPrivateKey(from), proposalId, option, metadata);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `✅ Voted ${option} on proposal #${proposalId} (${result.proposal.title})\n\n${formatConfirmation(result.tx)}`
                     },
                 ],
             };
@@ -883,6 +3427,17 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
     } catch (error: any) {
         console.error("Error executing tool:", error);
+        if (error instanceof ToolError) {
+            return {
+                isError: true,
+                content: [
+                    {
+                        type: "text",
+                        text: `Error [${error.code}]: ${error.message}`
+                    },
+                ],
+            };
+        }
         if (error instanceof z.ZodError) {
             return {
                 isError: true,
@@ -906,7 +3461,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             ],
         };
     }
-});
+}
 
 // Start the server
 async function main() {
@@ -0,0 +1,267 @@
+import { BigNumber } from '@injectivelabs/utils';
+import { fromBaseUnits, toHumanPrice } from './amounts.js';
+import { fetchPerpetualMarkets, fetchDerivativeOrderbook, resolvePerpetualMarket } from './derivatives.js';
+import { ToolError } from './errors.js';
+import { fetchSpotMarkets, fetchSpotOrderbook, resolveSpotMarket } from './markets.js';
+import type { OrderbookLevel, SpotOrderbook } from './markets.js';
+import type { NetworkContext } from './network.js';
+import { getTokenMetadata } from './tokens.js';
+
+export type MarketKind = 'spot' | 'perpetual';
+
+export interface MarketListing {
+    kind: MarketKind;
+    marketId: string;
+    ticker: string;
+    baseDenom: string | null; // Perpetuals have no base token
+    quoteDenom: string;
+}
+
+/**
+ * A resolved market with what is needed to convert its chain prices and quantities into human units
+ */
+interface MarketUnits {
+    kind: MarketKind;
+    marketId: string;
+    ticker: string;
+    baseDecimals: number;
+    quoteDecimals: number;
+}
+
+export interface HumanOrderbook {
+    marketId: string;
+    ticker: string;
+    bids: OrderbookLevel[];
+    asks: OrderbookLevel[];
+    bestBid: string | null;
+    bestAsk: string | null;
+    midPrice: string | null;
+    spread: string | null; // Percentage of the mid price
+}
+
+export interface MarketTicker {
+    marketId: string;
+    ticker: string;
+    lastPrice: string | null;
+    bestBid: string | null;
+    bestAsk: string | null;
+    // 24h statistics from the indexer's chronos service; null where it is unavailable
+    open24h: string | null;
+    high24h: string | null;
+    low24h: string | null;
+    volume24h: string | null;
+    change24h: string | null; // Percentage
+}
+
+export interface MarketTrade {
+    tradeId: string;
+    direction: string;
+    price: string;
+    quantity: string;
+    executedAt: string;
+}
+
+/**
+ * Lists spot and perpetual markets, optionally filtered by kind and by a denom or symbol traded in them.
+ * `denom` is the token resolved from a symbol, if any, so both spellings match.
+ */
+export async function listMarkets(network: NetworkContext, kind?: MarketKind, token?: string, denom?: string): Promise<MarketListing[]> {
+    const listings: MarketListing[] = [];
+
+    if (kind !== 'perpetual') {
+        for (const market of await fetchSpotMarkets(network)) {
+            listings.push({ kind: 'spot', marketId: market.marketId, ticker: market.ticker, baseDenom: market.baseDenom, quoteDenom: market.quoteDenom });
+        }
+    }
+    if (kind !== 'spot') {
+        for (const market of await fetchPerpetualMarkets(network)) {
+            listings.push({ kind: 'perpetual', marketId: market.marketId, ticker: market.ticker, baseDenom: null, quoteDenom: market.quoteDenom });
+        }
+    }
+
+    if (!token) {
+        return listings;
+    }
+
+    // Symbols are matched against the ticker ("INJ/USDT", "BTC/USDT PERP") to avoid a metadata lookup per market
+    const wanted = token.toUpperCase();
+    return listings.filter((market) => {
+        const symbols = market.ticker.toUpperCase().replace(/ PERP$/, '').split('/');
+        const denoms = [market.baseDenom, market.quoteDenom];
+        return denoms.includes(token) || (denom !== undefined && denoms.includes(denom)) || symbols.includes(wanted);
+    });
+}
+
+/**
+ * Resolves a spot market, falling back to perpetuals, from its id or ticker
+ */
+async function resolveMarketUnits(network: NetworkContext, market: string): Promise<MarketUnits> {
+    try {
+        const spot = await resolveSpotMarket(network, market);
+        return {
+            kind: 'spot',
+            marketId: spot.marketId,
+            ticker: spot.ticker,
+            baseDecimals: (await getTokenMetadata(spot.baseDenom, network)).decimals,
+            quoteDecimals: (await getTokenMetadata(spot.quoteDenom, network)).decimals
+        };
+    } catch (error: any) {
+        if (!(error instanceof ToolError) || error.code !== 'MARKET_NOT_FOUND') {
+            throw error;
+        }
+    }
+
+    try {
+        const perpetual = await resolvePerpetualMarket(network, market);
+        return {
+            kind: 'perpetual',
+            marketId: perpetual.marketId,
+            ticker: perpetual.ticker,
+            baseDecimals: 0,
+            quoteDecimals: (await getTokenMetadata(perpetual.quoteDenom, network)).decimals
+        };
+    } catch (error: any) {
+        if (!(error instanceof ToolError) || error.code !== 'MARKET_NOT_FOUND') {
+            throw error;
+        }
+        throw new ToolError('MARKET_NOT_FOUND', `No spot or perpetual market ${market} on ${network.name}`);
+    }
+}
+
+/**
+ * Converts a chain price to human units. Perpetual prices are quote base units per contract.
+ */
+function humanPrice(units: MarketUnits, price: string | BigNumber): string {
+    return units.kind === 'spot'
+        ? toHumanPrice(price, units.baseDecimals, units.quoteDecimals)
+        : fromBaseUnits(price, units.quoteDecimals);
+}
+
+/**
+ * Converts a chain quantity to human units. Perpetual quantities are already contracts.
+ */
+function humanQuantity(units: MarketUnits, quantity: string | BigNumber): string {
+    return units.kind === 'spot' ? fromBaseUnits(quantity, units.baseDecimals) : new BigNumber(quantity).toFixed();
+}
+
+async function fetchOrderbook(network: NetworkContext, units: MarketUnits): Promise<SpotOrderbook> {
+    return units.kind === 'spot'
+        ? fetchSpotOrderbook(network, units.marketId)
+        : fetchDerivativeOrderbook(network, units.marketId);
+}
+
+/**
+ * Returns the top `depth` levels of each side of a market's orderbook in human units
+ */
+export async function getOrderbook(network: NetworkContext, market: string, depth: number): Promise<HumanOrderbook> {
+    const units = await resolveMarketUnits(network, market);
+    const orderbook = await fetchOrderbook(network, units);
+
+    const toHuman = (level: OrderbookLevel): OrderbookLevel => ({
+        price: humanPrice(units, level.price),
+        quantity: humanQuantity(units, level.quantity)
+    });
+    const bids = orderbook.buys.slice(0, depth).map(toHuman);
+    const asks = orderbook.sells.slice(0, depth).map(toHuman);
+
+    const bestBid = bids[0]?.price ?? null;
+    const bestAsk = asks[0]?.price ?? null;
+    const mid = bestBid && bestAsk ? new BigNumber(bestBid).plus(bestAsk).div(2) : null;
+
+    return {
+        marketId: units.marketId,
+        ticker: units.ticker,
+        bids,
+        asks,
+        bestBid,
+        bestAsk,
+        midPrice: mid ? mid.toFixed() : null,
+        spread: mid && bestBid && bestAsk ? new BigNumber(bestAsk).minus(bestBid).div(mid).times(100).toFixed(4) : null
+    };
+}
+
+async function fetchTrades(network: NetworkContext, units: MarketUnits, limit: number): Promise<MarketTrade[]> {
+    const { IndexerGrpcSpotApi, IndexerGrpcDerivativesApi } = await import('@injectivelabs/sdk-ts');
+
+    try {
+        if (units.kind === 'spot') {
+            const { trades } = await new IndexerGrpcSpotApi(network.endpoints.indexer).fetchTrades({
+                marketId: units.marketId,
+                pagination: { limit }
+            });
+            return trades.map((trade) => ({
+                tradeId: trade.tradeId,
+                direction: trade.tradeDirection,
+                price: humanPrice(units, trade.price),
+                quantity: humanQuantity(units, trade.quantity),
+                executedAt: new Date(trade.executedAt).toISOString()
+            }));
+        }
+
+        const { trades } = await new IndexerGrpcDerivativesApi(network.endpoints.indexer).fetchTrades({
+            marketId: units.marketId,
+            pagination: { limit }
+        });
+        return trades.map((trade) => ({
+            tradeId: trade.tradeId,
+            direction: trade.tradeDirection,
+            price: humanPrice(units, trade.executionPrice),
+            quantity: humanQuantity(units, trade.executionQuantity),
+            executedAt: new Date(trade.executedAt).toISOString()
+        }));
+    } catch (error: any) {
+        throw new ToolError('TRADES_UNAVAILABLE', `Failed to fetch trades for ${units.ticker || units.marketId}: ${error.message}`);
+    }
+}
+
+/**
+ * Returns the most recent trades of a market, newest first, in human units
+ */
+export async function getRecentTrades(network: NetworkContext, market: string, limit: number): Promise<MarketTrade[]> {
+    return fetchTrades(network, await resolveMarketUnits(network, market), limit);
+}
+
+/**
+ * Reads the 24h summary from the chronos service, which reports human units. Returns null when the
+ * network has no chronos service (e.g. local or custom networks).
+ */
+async function fetchMarketSummary(network: NetworkContext, units: MarketUnits) {
+    const { IndexerRestSpotChronosApi, IndexerRestDerivativesChronosApi } = await import('@injectivelabs/sdk-ts');
+    const chronosBase = `${network.endpoints.chronos ?? network.endpoints.indexer}/api/chronos/v1`;
+
+    try {
+        return units.kind === 'spot'
+            ? await new IndexerRestSpotChronosApi(`${chronosBase}/spot`).fetchMarketSummary(units.marketId)
+            : await new IndexerRestDerivativesChronosApi(`${chronosBase}/derivative`).fetchMarketSummary(units.marketId);
+    } catch (error: any) {
+        console.error(`No 24h market summary for ${units.marketId}: ${error.message}`);
+        return null;
+    }
+}
+
+/**
+ * Returns last price, best bid and ask, and 24h open, high, low, volume and change of a market
+ */
+export async function getTicker(network: NetworkContext, market: string): Promise<MarketTicker> {
+    const units = await resolveMarketUnits(network, market);
+    const [orderbook, [lastTrade], summary] = await Promise.all([
+        fetchOrderbook(network, units),
+        fetchTrades(network, units, 1),
+        fetchMarketSummary(network, units)
+    ]);
+
+    const fromSummary = (value: number | undefined) => summary && value !== undefined ? new BigNumber(value).toFixed() : null;
+
+    return {
+        marketId: units.marketId,
+        ticker: units.ticker,
+        lastPrice: lastTrade?.price ?? null,
+        bestBid: orderbook.buys[0] ? humanPrice(units, orderbook.buys[0].price) : null,
+        bestAsk: orderbook.sells[0] ? humanPrice(units, orderbook.sells[0].price) : null,
+        open24h: fromSummary(summary?.open),
+        high24h: fromSummary(summary?.high),
+        low24h: fromSummary(summary?.low),
+        volume24h: fromSummary(summary?.volume),
+        change24h: fromSummary(summary?.change)
+    };
+}
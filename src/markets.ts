@@ -0,0 +1,158 @@
+import { BigNumber } from '@injectivelabs/utils';
+import { ToolError } from './errors.js';
+import type { NetworkContext } from './network.js';
+
+/**
+ * Spot market fields used by the swap tools, normalized across SDK response shapes
+ */
+export interface SpotMarketInfo {
+    marketId: string;
+    ticker: string;
+    baseDenom: string;
+    quoteDenom: string;
+    marketStatus: string; // Only 'active' markets accept orders; others are paused, suspended or demolished
+    makerFeeRate: string;
+    takerFeeRate: string;
+    minPriceTickSize: string;
+    minQuantityTickSize: string;
+    minNotional: string;
+}
+
+/**
+ * One orderbook level in chain format: price in quote base units per base base unit, quantity in base base units
+ */
+export interface OrderbookLevel {
+    price: string;
+    quantity: string;
+}
+
+export interface SpotOrderbook {
+    buys: OrderbookLevel[];
+    sells: OrderbookLevel[];
+}
+
+function toSpotMarketInfo(market: any): SpotMarketInfo {
+    // Older SDK versions nest the denom inside the token object
+    const baseToken = market.baseToken || market.baseAsset;
+    const quoteToken = market.quoteToken || market.quoteAsset;
+
+    return {
+        marketId: market.marketId || market.id,
+        ticker: market.ticker || '',
+        baseDenom: market.baseDenom || (typeof baseToken === 'string' ? baseToken : baseToken?.denom),
+        quoteDenom: market.quoteDenom || (typeof quoteToken === 'string' ? quoteToken : quoteToken?.denom),
+        marketStatus: market.marketStatus || 'active',
+        makerFeeRate: String(market.makerFeeRate ?? '0'),
+        takerFeeRate: String(market.takerFeeRate ?? '0'),
+        // The indexer transformer returns these as numbers, so avoid exponent notation like 1e-15
+        minPriceTickSize: new BigNumber(market.minPriceTickSize ?? 0).toFixed(),
+        minQuantityTickSize: new BigNumber(market.minQuantityTickSize ?? 0).toFixed(),
+        minNotional: new BigNumber(market.minNotional ?? 0).toFixed()
+    };
+}
+
+/**
+ * Fetches all spot markets from the indexer
+ */
+export async function fetchSpotMarkets(network: NetworkContext): Promise<SpotMarketInfo[]> {
+    const { IndexerGrpcSpotApi } = await import('@injectivelabs/sdk-ts');
+    const indexerGrpcSpotApi = new IndexerGrpcSpotApi(network.endpoints.indexer);
+
+    let response: any;
+    try {
+        response = await indexerGrpcSpotApi.fetchMarkets();
+    } catch (error: any) {
+        throw new ToolError('MARKETS_UNAVAILABLE', `Failed to fetch spot markets from ${network.name}: ${error.message}`);
+    }
+
+    // Safely extract markets based on the response structure of different SDK versions
+    let markets: any[] = [];
+    if (Array.isArray(response)) {
+        markets = response;
+    } else if (response && Array.isArray(response.markets)) {
+        markets = response.markets;
+    } else if (response && Array.isArray(response.data)) {
+        markets = response.data;
+    }
+
+    return markets.map(toSpotMarketInfo);
+}
+
+/**
+ * Fetches a single spot market from the indexer
+ */
+export async function fetchSpotMarket(network: NetworkContext, marketId: string): Promise<SpotMarketInfo> {
+    const { IndexerGrpcSpotApi } = await import('@injectivelabs/sdk-ts');
+    const indexerGrpcSpotApi = new IndexerGrpcSpotApi(network.endpoints.indexer);
+
+    let market: any;
+    try {
+        market = await indexerGrpcSpotApi.fetchMarket(marketId);
+    } catch (error: any) {
+        throw new ToolError('MARKET_NOT_FOUND', `Failed to fetch spot market ${marketId} from ${network.name}: ${error.message}`);
+    }
+    if (!market) {
+        throw new ToolError('MARKET_NOT_FOUND', `Spot market ${marketId} not found on ${network.name}`);
+    }
+
+    return toSpotMarketInfo(market);
+}
+
+/**
+ * Resolves a spot market from its id (0x...) or its ticker (e.g. INJ/USDT, case-insensitive)
+ */
+export async function resolveSpotMarket(network: NetworkContext, market: string): Promise<SpotMarketInfo> {
+    if (market.startsWith('0x')) {
+        return fetchSpotMarket(network, market);
+    }
+
+    const wanted = market.toUpperCase();
+    const matches = (await fetchSpotMarkets(network)).filter((m) => m.ticker.toUpperCase() === wanted);
+    if (matches.length === 0) {
+        throw new ToolError('MARKET_NOT_FOUND', `No spot market with ticker ${market} on ${network.name}`);
+    }
+    if (matches.length > 1) {
+        throw new ToolError('AMBIGUOUS_MARKET',
+            `Ticker ${market} matches several spot markets on ${network.name}. Use one of these market ids instead: ${matches.map((m) => m.marketId).join(', ')}`);
+    }
+    return matches[0];
+}
+
+/**
+ * Fetches a spot orderbook; buys are sorted best (highest) first and sells best (lowest) first
+ */
+export async function fetchSpotOrderbook(network: NetworkContext, marketId: string): Promise<SpotOrderbook> {
+    const { IndexerGrpcSpotApi } = await import('@injectivelabs/sdk-ts');
+    const indexerGrpcSpotApi = new IndexerGrpcSpotApi(network.endpoints.indexer);
+
+    let response: any;
+    try {
+        response = typeof indexerGrpcSpotApi.fetchOrderbookV2 === 'function'
+            ? await indexerGrpcSpotApi.fetchOrderbookV2(marketId)
+            : await (indexerGrpcSpotApi as any).fetchOrderbook(marketId);
+    } catch (error: any) {
+        throw new ToolError('ORDERBOOK_UNAVAILABLE', `Failed to fetch orderbook for market ${marketId}: ${error.message}`);
+    }
+
+    return normalizeOrderbook(response);
+}
+
+/**
+ * Extracts orderbook levels from an indexer response; buys are sorted best (highest) first and sells best (lowest) first
+ */
+export function normalizeOrderbook(response: any): SpotOrderbook {
+    const toLevels = (levels: any): OrderbookLevel[] => Array.isArray(levels)
+        ? levels.map((level: any) => ({
+            price: String(level.price ?? level.p),
+            quantity: String(level.quantity ?? level.q)
+        }))
+        : [];
+
+    const buys = toLevels(response?.buys ?? response?.bids);
+    const sells = toLevels(response?.sells ?? response?.asks);
+
+    buys.sort((a, b) => new BigNumber(b.price).comparedTo(a.price));
+    sells.sort((a, b) => new BigNumber(a.price).comparedTo(b.price));
+
+    return { buys, sells };
+}
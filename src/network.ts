@@ -0,0 +1,86 @@
+import type { ChainInfo, Network, NetworkEndpoints } from '@injectivelabs/networks';
+import { configFilePath, loadConfig } from './config.js';
+
+/**
+ * Resolved network selection shared by every tool
+ */
+export interface NetworkContext {
+    name: string;
+    network: Network;
+    endpoints: NetworkEndpoints;
+    chainId: ChainInfo['chainId'];
+}
+
+export const DEFAULT_NETWORK = 'testnet';
+
+// Built-in network names accepted by INJECTIVE_NETWORK, the config file and the per-call argument
+const BUILTIN_NETWORKS = ['mainnet', 'testnet', 'devnet', 'local'];
+
+/**
+ * Returns the network the server is configured for when no per-call network is given
+ */
+export async function getDefaultNetworkName(): Promise<string> {
+    const config = await loadConfig();
+    return process.env.INJECTIVE_NETWORK || config.network || DEFAULT_NETWORK;
+}
+
+/**
+ * Resolves a network name (built-in or custom from the config file) into endpoints and chain ID.
+ * Falls back to the configured default network when no name is given.
+ */
+export async function resolveNetwork(name?: string): Promise<NetworkContext> {
+    const { getNetworkEndpoints, getNetworkChainInfo, Network } = await import('@injectivelabs/networks');
+    const config = await loadConfig();
+
+    const defaultName = await getDefaultNetworkName();
+    const selected = (name || defaultName).toLowerCase();
+
+    const toNetwork = (networkName: string): Network => {
+        if (!BUILTIN_NETWORKS.includes(networkName)) {
+            throw new Error(`Unknown network "${networkName}". Use one of: ${BUILTIN_NETWORKS.join(', ')} or a network defined in ${configFilePath}`);
+        }
+        return networkName as Network;
+    };
+
+    let context: NetworkContext;
+    const custom = config.networks?.[selected];
+
+    if (custom) {
+        // Custom networks inherit anything they don't override from their base network
+        const network = toNetwork(custom.base || Network.Local);
+        const baseEndpoints = getNetworkEndpoints(network);
+        context = {
+            name: selected,
+            network,
+            endpoints: {
+                ...baseEndpoints,
+                grpc: custom.grpc || baseEndpoints.grpc,
+                indexer: custom.indexer || baseEndpoints.indexer,
+                rest: custom.rest || baseEndpoints.rest,
+                rpc: custom.rpc || baseEndpoints.rpc
+            },
+            chainId: (custom.chainId || getNetworkChainInfo(network).chainId) as ChainInfo['chainId']
+        };
+    } else {
+        const network = toNetwork(selected);
+        context = {
+            name: selected,
+            network,
+            endpoints: getNetworkEndpoints(network),
+            chainId: getNetworkChainInfo(network).chainId
+        };
+    }
+
+    // Environment overrides only apply to the server's default network, never to per-call selections
+    if (selected === defaultName.toLowerCase()) {
+        context.endpoints = {
+            ...context.endpoints,
+            grpc: process.env.INJECTIVE_GRPC_ENDPOINT || context.endpoints.grpc,
+            indexer: process.env.INJECTIVE_INDEXER_ENDPOINT || context.endpoints.indexer,
+            rest: process.env.INJECTIVE_REST_ENDPOINT || context.endpoints.rest
+        };
+        context.chainId = (process.env.INJECTIVE_CHAIN_ID || context.chainId) as ChainInfo['chainId'];
+    }
+
+    return context;
+}
@@ -0,0 +1,272 @@
+import { randomUUID } from 'crypto';
+import type { PrivateKey } from '@injectivelabs/sdk-ts';
+import { BigNumber } from '@injectivelabs/utils';
+import { fromBaseUnits, toBaseUnits, toChainPrice, toHumanPrice } from './amounts.js';
+import { broadcastMsgs } from './broadcast.js';
+import type { BroadcastResult } from './broadcast.js';
+import { ToolError } from './errors.js';
+import { fetchSpotMarkets, fetchSpotOrderbook, resolveSpotMarket } from './markets.js';
+import type { SpotMarketInfo } from './markets.js';
+import type { NetworkContext } from './network.js';
+import { prepareSpotOrder } from './rules.js';
+import { toSubaccountId } from './subaccounts.js';
+import { getTokenMetadata } from './tokens.js';
+
+/**
+ * GTC orders rest on the book until filled or cancelled; IOC orders fill what they can
+ * at the limit price or better and drop the rest (placed as market orders with a worst price)
+ */
+export type TimeInForce = 'GTC' | 'IOC';
+
+export interface LimitOrderRequest {
+    market: string; // Market id or ticker
+    side: 'buy' | 'sell';
+    price: string; // Human units: quote tokens per base token
+    quantity: string; // Human units of the base token
+    postOnly?: boolean;
+    timeInForce?: TimeInForce;
+    cid?: string;
+    subaccountIndex?: number; // Default subaccount when omitted
+}
+
+export interface PlacedOrder {
+    marketId: string;
+    ticker: string;
+    side: 'buy' | 'sell';
+    price: string; // After quantization to the price tick, human units
+    quantity: string; // After quantization to the quantity tick, human units
+    postOnly: boolean;
+    timeInForce: TimeInForce;
+    cid: string;
+    tx: BroadcastResult;
+}
+
+/**
+ * Identifies an order by its hash or by the client order id it was placed with
+ */
+export interface OrderReference {
+    market: string; // Market id or ticker
+    orderHash?: string;
+    cid?: string;
+}
+
+export interface OpenOrder {
+    orderHash: string;
+    cid: string;
+    marketId: string;
+    ticker: string;
+    side: string;
+    price: string;
+    quantity: string;
+    unfilledQuantity: string;
+    state: string;
+    createdAt: string;
+}
+
+/**
+ * Places a spot limit order from one of the account's subaccounts, the default one unless the request names another.
+ * Price and quantity are snapped to the market's ticks and checked against its minimum notional first.
+ */
+export async function placeSpotLimitOrder(network: NetworkContext, privateKey: PrivateKey, request: LimitOrderRequest): Promise<PlacedOrder> {
+    const {
+        MsgCreateSpotLimitOrder,
+        MsgCreateSpotMarketOrder,
+        OrderTypeMap
+    } = await import('@injectivelabs/sdk-ts');
+
+    const timeInForce = request.timeInForce ?? 'GTC';
+    const postOnly = request.postOnly ?? false;
+    if (postOnly && timeInForce === 'IOC') {
+        throw new ToolError('INVALID_ORDER', 'Post-only orders must rest on the book and cannot be immediate-or-cancel');
+    }
+
+    const market = await resolveSpotMarket(network, request.market);
+    const { decimals: baseDecimals } = await getTokenMetadata(market.baseDenom, network);
+    const { decimals: quoteDecimals } = await getTokenMetadata(market.quoteDenom, network);
+
+    const { price, quantity } = await prepareSpotOrder(
+        network,
+        market.marketId,
+        request.side,
+        toChainPrice(request.price, baseDecimals, quoteDecimals),
+        toBaseUnits(request.quantity, baseDecimals)
+    );
+
+    // Post-only orders that would cross the spread are rejected by the chain, so catch them before paying gas
+    if (postOnly) {
+        const orderbook = await fetchSpotOrderbook(network, market.marketId);
+        const opposite = request.side === 'buy' ? orderbook.sells[0] : orderbook.buys[0];
+        const crosses = opposite && (request.side === 'buy'
+            ? new BigNumber(price).gte(opposite.price)
+            : new BigNumber(price).lte(opposite.price));
+        if (crosses) {
+            throw new ToolError('POST_ONLY_WOULD_CROSS',
+                `Post-only ${request.side} at ${toHumanPrice(price, baseDecimals, quoteDecimals)} would trade against the best ` +
+                `${request.side === 'buy' ? 'ask' : 'bid'} of ${toHumanPrice(opposite.price, baseDecimals, quoteDecimals)} on ${market.ticker || market.marketId}`);
+        }
+    }
+
+    const injectiveAddress = privateKey.toBech32();
+    const cid = request.cid ?? randomUUID();
+    const orderParams = {
+        injectiveAddress,
+        marketId: market.marketId,
+        subaccountId: await toSubaccountId(injectiveAddress, request.subaccountIndex),
+        feeRecipient: injectiveAddress,
+        price,
+        quantity,
+        cid
+    };
+
+    let orderMsg;
+    if (timeInForce === 'IOC') {
+        orderMsg = MsgCreateSpotMarketOrder.fromJSON({
+            ...orderParams,
+            orderType: request.side === 'buy' ? OrderTypeMap.BUY : OrderTypeMap.SELL
+        });
+    } else {
+        const orderType = request.side === 'buy'
+            ? (postOnly ? OrderTypeMap.BUY_PO : OrderTypeMap.BUY)
+            : (postOnly ? OrderTypeMap.SELL_PO : OrderTypeMap.SELL);
+        orderMsg = MsgCreateSpotLimitOrder.fromJSON({ ...orderParams, orderType });
+    }
+
+    // The order locks the quantity for sells and the notional plus the taker fee for buys. Only the default
+    // subaccount takes them from the bank balance, but the spending policy counts them whichever subaccount pays.
+    const spendAmount = request.side === 'buy'
+        ? new BigNumber(price).times(quantity).times(new BigNumber(1).plus(market.takerFeeRate)).integerValue(BigNumber.ROUND_UP)
+        : new BigNumber(quantity);
+    const spend = [{ denom: request.side === 'buy' ? market.quoteDenom : market.baseDenom, amount: spendAmount.toFixed() }];
+
+    const tx = await broadcastMsgs(network, privateKey, [orderMsg], `${request.side} order on ${market.ticker || market.marketId}`,
+        { spend: (request.subaccountIndex ?? 0) === 0 ? spend : [], policySpend: spend });
+
+    return {
+        marketId: market.marketId,
+        ticker: market.ticker,
+        side: request.side,
+        price: toHumanPrice(price, baseDecimals, quoteDecimals),
+        quantity: fromBaseUnits(quantity, baseDecimals),
+        postOnly,
+        timeInForce,
+        cid,
+        tx
+    };
+}
+
+function assertOrderReference(order: OrderReference) {
+    if (!order.orderHash && !order.cid) {
+        throw new ToolError('INVALID_ORDER', `An order hash or client order id (cid) is required to cancel an order on ${order.market}`);
+    }
+}
+
+/**
+ * Cancels one spot order of one of the account's subaccounts, the default one unless given
+ */
+export async function cancelSpotOrder(
+    network: NetworkContext,
+    privateKey: PrivateKey,
+    order: OrderReference,
+    subaccountIndex: number = 0
+): Promise<BroadcastResult> {
+    const { MsgCancelSpotOrder } = await import('@injectivelabs/sdk-ts');
+    assertOrderReference(order);
+
+    const market = await resolveSpotMarket(network, order.market);
+    const injectiveAddress = privateKey.toBech32();
+    const msg = MsgCancelSpotOrder.fromJSON({
+        injectiveAddress,
+        marketId: market.marketId,
+        subaccountId: await toSubaccountId(injectiveAddress, subaccountIndex),
+        orderHash: order.orderHash,
+        cid: order.cid
+    });
+
+    return broadcastMsgs(network, privateKey, [msg], 'order cancellation');
+}
+
+/**
+ * Cancels several spot orders in one transaction. Orders that are no longer open are skipped by the chain.
+ */
+export async function batchCancelSpotOrders(
+    network: NetworkContext,
+    privateKey: PrivateKey,
+    orders: OrderReference[],
+    subaccountIndex: number = 0
+): Promise<BroadcastResult> {
+    const { MsgBatchCancelSpotOrders } = await import('@injectivelabs/sdk-ts');
+    if (orders.length === 0) {
+        throw new ToolError('INVALID_ORDER', 'No orders to cancel');
+    }
+    orders.forEach(assertOrderReference);
+
+    const injectiveAddress = privateKey.toBech32();
+    const subaccountId = await toSubaccountId(injectiveAddress, subaccountIndex);
+
+    // Resolve each distinct market once
+    const marketIds = new Map<string, string>();
+    for (const order of orders) {
+        if (!marketIds.has(order.market)) {
+            marketIds.set(order.market, (await resolveSpotMarket(network, order.market)).marketId);
+        }
+    }
+
+    const msg = MsgBatchCancelSpotOrders.fromJSON({
+        injectiveAddress,
+        orders: orders.map((order) => ({
+            marketId: marketIds.get(order.market)!,
+            subaccountId,
+            orderHash: order.orderHash,
+            cid: order.cid
+        }))
+    });
+
+    return broadcastMsgs(network, privateKey, [msg], `cancellation of ${orders.length} orders`);
+}
+
+/**
+ * Lists the resting spot orders of one of an address's subaccounts, the default one unless given, optionally for one market, in human units
+ */
+export async function listOpenSpotOrders(network: NetworkContext, address: string, market?: string, subaccountIndex: number = 0): Promise<OpenOrder[]> {
+    const { IndexerGrpcSpotApi } = await import('@injectivelabs/sdk-ts');
+    const indexerGrpcSpotApi = new IndexerGrpcSpotApi(network.endpoints.indexer);
+
+    const marketId = market ? (await resolveSpotMarket(network, market)).marketId : undefined;
+
+    let response;
+    try {
+        response = await indexerGrpcSpotApi.fetchOrders({
+            subaccountId: await toSubaccountId(address, subaccountIndex),
+            marketId
+        });
+    } catch (error: any) {
+        throw new ToolError('ORDERS_UNAVAILABLE', `Failed to fetch open orders from ${network.name}: ${error.message}`);
+    }
+
+    const markets = new Map<string, SpotMarketInfo>((await fetchSpotMarkets(network)).map((m) => [m.marketId, m]));
+    const openOrders: OpenOrder[] = [];
+
+    for (const order of response.orders) {
+        const orderMarket = markets.get(order.marketId);
+        if (!orderMarket) {
+            continue;
+        }
+        const { decimals: baseDecimals } = await getTokenMetadata(orderMarket.baseDenom, network);
+        const { decimals: quoteDecimals } = await getTokenMetadata(orderMarket.quoteDenom, network);
+
+        openOrders.push({
+            orderHash: order.orderHash,
+            cid: order.cid,
+            marketId: order.marketId,
+            ticker: orderMarket.ticker,
+            side: order.orderSide,
+            price: toHumanPrice(order.price, baseDecimals, quoteDecimals),
+            quantity: fromBaseUnits(order.quantity, baseDecimals),
+            unfilledQuantity: fromBaseUnits(order.unfilledQuantity, baseDecimals),
+            state: order.state,
+            createdAt: new Date(order.createdAt).toISOString()
+        });
+    }
+
+    return openOrders;
+}
@@ -0,0 +1,245 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs/promises';
+import path from 'path';
+import { BigNumber } from '@injectivelabs/utils';
+import { z } from "zod";
+import { fromBaseUnits } from './amounts.js';
+import { configDir, policyFilePath } from './config.js';
+import { ToolError } from './errors.js';
+import type { NetworkContext } from './network.js';
+import { getTokenMetadata } from './tokens.js';
+
+const spendingLedgerFilePath = path.join(configDir, 'spending-ledger.json');
+
+// Daily limits cover a rolling window of this length
+const DAILY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Tools that move value without spending from the bank, so no threshold would catch them
+const DEFAULT_ALWAYS_CONFIRM = ['undelegate', 'change-token-admin', 'migrate-contract'];
+
+const PolicyAmountSchema = z.union([z.string(), z.number()])
+    .transform((value) => new BigNumber(value))
+    .refine((value) => value.isFinite() && value.gte(0), { message: "Expected a non-negative amount" });
+
+const SpendingPolicySchema = z.object({
+    tools: z.record(z.boolean()).default({}), // Tool name -> enabled; tools not listed are enabled
+    limits: z.record(z.object({ // Denom or symbol -> limits in human units
+        perTransaction: PolicyAmountSchema.optional(),
+        daily: PolicyAmountSchema.optional()
+    })).default({}),
+    recipients: z.object({
+        allow: z.array(z.string()).optional(), // When set, only these addresses can receive tokens
+        deny: z.array(z.string()).default([])
+    }).default({}),
+    maxSlippage: z.number().min(0).optional(), // Percent
+    confirmation: z.object({
+        thresholds: z.record(PolicyAmountSchema).default({}), // Denom or symbol -> spending more needs confirmation, in human units
+        allTransactions: z.boolean().default(false), // Confirm every transaction, including ones that spend nothing
+        alwaysConfirm: z.array(z.string()).default(DEFAULT_ALWAYS_CONFIRM), // Tool names whose transactions are confirmed whatever they spend
+        ttlSeconds: z.number().int().min(10).max(3600).default(300) // How long a prepared transaction can be confirmed
+    }).optional()
+}).strict();
+
+export type SpendingPolicy = z.infer<typeof SpendingPolicySchema>;
+
+interface LedgerEntry {
+    time: number;
+    denom: string;
+    amount: string; // Base units
+    reservation?: string; // Shared by the entries of one transaction, so they can be released if it is not broadcast
+}
+
+// Spending per network name, so testnet activity does not use up mainnet limits
+type SpendingLedger = Record<string, LedgerEntry[]>;
+
+/**
+ * Reads the policy file on every call, so edits apply without a restart. No file means no restrictions;
+ * a file that cannot be read or parsed blocks every guarded action rather than silently allowing it.
+ */
+export async function loadPolicy(): Promise<SpendingPolicy> {
+    let json: unknown;
+    try {
+        json = JSON.parse(await fs.readFile(policyFilePath, 'utf8'));
+    } catch (error: any) {
+        if (error.code === 'ENOENT') {
+            return SpendingPolicySchema.parse({});
+        }
+        throw new ToolError('INVALID_POLICY', `Cannot read the spending policy ${policyFilePath}: ${error.message}`);
+    }
+
+    const parsed = SpendingPolicySchema.safeParse(json);
+    if (!parsed.success) {
+        const problems = parsed.error.errors.map((e) => `${e.path.join('.') || '(root)'}: ${e.message}`).join(', ');
+        throw new ToolError('INVALID_POLICY', `The spending policy ${policyFilePath} is invalid: ${problems}`);
+    }
+    return parsed.data;
+}
+
+export async function assertToolEnabled(tool: string) {
+    const policy = await loadPolicy();
+    if (policy.tools[tool] === false) {
+        throw new ToolError('TOOL_DISABLED', `${tool} is disabled by the spending policy ${policyFilePath}`);
+    }
+}
+
+export async function assertSlippageAllowed(slippage: number) {
+    const { maxSlippage } = await loadPolicy();
+    if (maxSlippage !== undefined && slippage > maxSlippage) {
+        throw new ToolError('SLIPPAGE_TOO_HIGH', `Slippage of ${slippage}% exceeds the ${maxSlippage}% allowed by the spending policy`);
+    }
+}
+
+// Serializes ledger reads and writes within the server, so a check and its reservation cannot interleave with another call's
+let ledgerLock: Promise<unknown> = Promise.resolve();
+
+function withLedgerLock<T>(task: () => Promise<T>): Promise<T> {
+    const run = ledgerLock.then(task, task);
+    ledgerLock = run.catch(() => undefined);
+    return run;
+}
+
+async function loadLedger(): Promise<SpendingLedger> {
+    try {
+        return JSON.parse(await fs.readFile(spendingLedgerFilePath, 'utf8')) as SpendingLedger;
+    } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+            throw new ToolError('INVALID_POLICY', `Cannot read the spending ledger ${spendingLedgerFilePath}: ${error.message}`);
+        }
+        return {};
+    }
+}
+
+async function saveLedger(ledger: SpendingLedger) {
+    await fs.mkdir(path.dirname(spendingLedgerFilePath), { recursive: true });
+    await fs.writeFile(spendingLedgerFilePath, JSON.stringify(ledger, null, 2), 'utf8');
+}
+
+/**
+ * Finds the policy entry for a denom, keyed either by the denom itself or, case-insensitively, by its symbol
+ */
+function findDenomEntry<T>(entries: Record<string, T>, denom: string, symbol: string): T | undefined {
+    return entries[denom]
+        ?? Object.entries(entries).find(([key]) => key.toUpperCase() === symbol.toUpperCase())?.[1];
+}
+
+/**
+ * Checks what a transaction spends and who receives tokens against the policy, and reserves the spending in the
+ * ledger in the same step, so concurrent calls cannot all pass the daily limit. Returns the reservation id, which
+ * releaseSpend takes back if the transaction is not broadcast.
+ */
+export async function reserveSpend(network: NetworkContext, spend: { denom: string; amount: string }[], recipients: string[], action: string): Promise<string> {
+    const policy = await loadPolicy();
+
+    for (const recipient of recipients) {
+        if (policy.recipients.deny.includes(recipient)) {
+            throw new ToolError('RECIPIENT_DENIED', `Cannot send ${action}: ${recipient} is on the spending policy's deny list`);
+        }
+        if (policy.recipients.allow && !policy.recipients.allow.includes(recipient)) {
+            throw new ToolError('RECIPIENT_NOT_ALLOWED', `Cannot send ${action}: ${recipient} is not on the spending policy's allow list`);
+        }
+    }
+
+    const reservation = randomUUID();
+    if (spend.length === 0) {
+        return reservation;
+    }
+
+    return withLedgerLock(async () => {
+        const since = Date.now() - DAILY_WINDOW_MS;
+        const ledger = await loadLedger();
+        const history = (ledger[network.name] ?? []).filter((entry) => entry.time >= since);
+
+        for (const coin of spend) {
+            const { symbol, decimals } = await getTokenMetadata(coin.denom, network);
+            const limits = findDenomEntry(policy.limits, coin.denom, symbol);
+            if (!limits) {
+                continue;
+            }
+
+            const amount = new BigNumber(fromBaseUnits(coin.amount, decimals));
+            if (limits.perTransaction && amount.gt(limits.perTransaction)) {
+                throw new ToolError('PER_TRANSACTION_LIMIT',
+                    `Cannot send ${action}: ${amount.toFixed()} ${symbol} exceeds the per-transaction limit of ${limits.perTransaction.toFixed()} ${symbol}`);
+            }
+
+            if (limits.daily) {
+                const spentBase = history
+                    .filter((entry) => entry.denom === coin.denom)
+                    .reduce((total, entry) => total.plus(entry.amount), new BigNumber(0));
+                const spent = new BigNumber(fromBaseUnits(spentBase, decimals));
+                if (spent.plus(amount).gt(limits.daily)) {
+                    throw new ToolError('DAILY_LIMIT',
+                        `Cannot send ${action}: ${amount.toFixed()} ${symbol} on top of ${spent.toFixed()} ${symbol} spent or reserved in the last 24 hours ` +
+                        `exceeds the daily limit of ${limits.daily.toFixed()} ${symbol} on ${network.name}`);
+                }
+            }
+        }
+
+        // Recorded even without limits, so limits added later see the day's spending
+        ledger[network.name] = [
+            ...history,
+            ...spend.map((coin) => ({ time: Date.now(), denom: coin.denom, amount: coin.amount, reservation }))
+        ];
+        await saveLedger(ledger);
+        return reservation;
+    });
+}
+
+/**
+ * Takes back what reserveSpend recorded for a transaction that was not broadcast
+ */
+export async function releaseSpend(network: NetworkContext, reservation: string) {
+    await withLedgerLock(async () => {
+        const ledger = await loadLedger();
+        const entries = ledger[network.name] ?? [];
+        if (!entries.some((entry) => entry.reservation === reservation)) {
+            return;
+        }
+        ledger[network.name] = entries.filter((entry) => entry.reservation !== reservation);
+        await saveLedger(ledger);
+    });
+}
+
+/**
+ * Rejects sending tokens to an address that is not known before broadcasting, such as a contract that is being
+ * instantiated, whenever the policy restricts recipients to an allow list
+ */
+export async function assertUnknownRecipientAllowed(action: string, recipient: string) {
+    const policy = await loadPolicy();
+    if (policy.recipients.allow) {
+        throw new ToolError('RECIPIENT_NOT_ALLOWED',
+            `Cannot send ${action}: ${recipient} cannot be checked against the spending policy's allow list before it exists`);
+    }
+}
+
+/**
+ * Lists why a transaction, sent by the given tool when known, needs confirmation before it is signed;
+ * an empty list means it can be broadcast right away
+ */
+export async function findConfirmationReasons(
+    network: NetworkContext,
+    spend: { denom: string; amount: string }[],
+    tool: string | undefined
+): Promise<string[]> {
+    const { confirmation } = await loadPolicy();
+    if (!confirmation) {
+        return [];
+    }
+    if (confirmation.allTransactions) {
+        return ['the spending policy requires confirmation of every transaction'];
+    }
+    if (tool && confirmation.alwaysConfirm.includes(tool)) {
+        return [`the spending policy requires confirmation of every ${tool} transaction`];
+    }
+
+    const reasons: string[] = [];
+    for (const coin of spend) {
+        const { symbol, decimals } = await getTokenMetadata(coin.denom, network);
+        const threshold = findDenomEntry(confirmation.thresholds, coin.denom, symbol);
+        const amount = new BigNumber(fromBaseUnits(coin.amount, decimals));
+        if (threshold && amount.gt(threshold)) {
+            reasons.push(`${amount.toFixed()} ${symbol} exceeds the confirmation threshold of ${threshold.toFixed()} ${symbol}`);
+        }
+    }
+    return reasons;
+}
@@ -0,0 +1,157 @@
+import { BigNumber } from '@injectivelabs/utils';
+import { fromBaseUnits } from './amounts.js';
+import { ToolError } from './errors.js';
+import { fetchSpotMarkets, fetchSpotOrderbook } from './markets.js';
+import type { SpotMarketInfo } from './markets.js';
+import type { NetworkContext } from './network.js';
+import { getStakingPosition, STAKING_DENOM } from './staking.js';
+import { fetchAllSubaccountBalances } from './subaccounts.js';
+import { getTokenMetadata } from './tokens.js';
+
+// Tokens valued at 1 USD; everything else is priced from a spot market quoted in one of them
+const USD_STABLECOINS = new Set(['USDT', 'USDC']);
+
+export interface PortfolioBalance {
+    denom: string;
+    symbol: string;
+    decimals: number;
+    amount: string; // Human units
+    usdValue: string | null; // Null when not requested or when no USD market exists
+}
+
+export interface SubaccountPortfolioBalance extends PortfolioBalance {
+    subaccountId: string;
+    available: string; // Human units not locked in orders; `amount` is the total
+}
+
+export interface Portfolio {
+    address: string;
+    bank: PortfolioBalance[];
+    subaccounts: SubaccountPortfolioBalance[];
+    staking: {
+        delegated: PortfolioBalance;
+        unbonding: PortfolioBalance;
+        rewards: PortfolioBalance;
+    };
+    totalUsdValue: string | null; // Sum of the entries that could be valued
+}
+
+/**
+ * Fetches every non-zero bank balance of an address, following pagination
+ */
+async function fetchAllBankBalances(network: NetworkContext, address: string) {
+    const { ChainGrpcBankApi } = await import('@injectivelabs/sdk-ts');
+    const chainGrpcBankApi = new ChainGrpcBankApi(network.endpoints.grpc);
+
+    const balances = [];
+    let key: string | undefined;
+    try {
+        do {
+            const response = await chainGrpcBankApi.fetchBalances(address, { key, limit: 100 });
+            balances.push(...response.balances);
+            key = response.pagination.next ?? undefined;
+        } while (key);
+    } catch (error: any) {
+        throw new ToolError('BALANCES_UNAVAILABLE', `Failed to fetch bank balances of ${address} from ${network.name}: ${error.message}`);
+    }
+    return balances.filter((coin) => new BigNumber(coin.amount).gt(0));
+}
+
+/**
+ * Prices tokens in USD from the mid price of their spot market against a stablecoin.
+ * Prices are looked up once per denom; tokens without such a market or orderbook get null.
+ */
+function createUsdPricer(network: NetworkContext) {
+    const prices = new Map<string, Promise<BigNumber | null>>();
+    let markets: Promise<SpotMarketInfo[]> | null = null;
+
+    const lookup = async (denom: string): Promise<BigNumber | null> => {
+        const { symbol, decimals: baseDecimals } = await getTokenMetadata(denom, network);
+        if (USD_STABLECOINS.has(symbol.toUpperCase())) {
+            return new BigNumber(1);
+        }
+
+        markets ??= fetchSpotMarkets(network);
+        for (const market of (await markets).filter((m) => m.baseDenom === denom)) {
+            const quote = await getTokenMetadata(market.quoteDenom, network);
+            if (!USD_STABLECOINS.has(quote.symbol.toUpperCase())) {
+                continue;
+            }
+
+            const orderbook = await fetchSpotOrderbook(network, market.marketId);
+            if (!orderbook.buys[0] || !orderbook.sells[0]) {
+                continue;
+            }
+            // Chain prices are quote base units per base base unit
+            return new BigNumber(orderbook.buys[0].price).plus(orderbook.sells[0].price).div(2)
+                .shiftedBy(baseDecimals - quote.decimals);
+        }
+        return null;
+    };
+
+    return (denom: string): Promise<BigNumber | null> => {
+        if (!prices.has(denom)) {
+            prices.set(denom, lookup(denom).catch((error: any) => {
+                console.error(`No USD price for ${denom}: ${error.message}`);
+                return null;
+            }));
+        }
+        return prices.get(denom)!;
+    };
+}
+
+/**
+ * Collects bank balances, subaccount deposits, staked and unbonding INJ and pending staking rewards
+ * of an address, with symbols and decimals resolved, optionally valued in USD
+ */
+export async function getPortfolio(network: NetworkContext, address: string, valueInUsd: boolean = false): Promise<Portfolio> {
+    const [bankBalances, subaccountBalances, staking] = await Promise.all([
+        fetchAllBankBalances(network, address),
+        fetchAllSubaccountBalances(network, address),
+        getStakingPosition(network, address)
+    ]);
+
+    const priceInUsd = valueInUsd ? createUsdPricer(network) : null;
+    let totalUsdValue = new BigNumber(0);
+
+    // `amount` is in human units
+    const toBalance = async (denom: string, amount: string): Promise<PortfolioBalance> => {
+        const { symbol, decimals } = await getTokenMetadata(denom, network);
+        const price = priceInUsd ? await priceInUsd(denom) : null;
+        const usdValue = price ? price.times(amount) : null;
+        if (usdValue) {
+            totalUsdValue = totalUsdValue.plus(usdValue);
+        }
+        return { denom, symbol, decimals, amount, usdValue: usdValue ? usdValue.toFixed(2) : null };
+    };
+
+    const bank: PortfolioBalance[] = [];
+    for (const coin of bankBalances) {
+        const { decimals } = await getTokenMetadata(coin.denom, network);
+        bank.push(await toBalance(coin.denom, fromBaseUnits(coin.amount, decimals)));
+    }
+
+    const subaccounts: SubaccountPortfolioBalance[] = [];
+    for (const balance of subaccountBalances) {
+        const { decimals } = await getTokenMetadata(balance.denom, network);
+        // Deposits are tracked with fractional base units
+        const toHuman = (amount: string) => fromBaseUnits(new BigNumber(amount).decimalPlaces(0, BigNumber.ROUND_DOWN), decimals);
+        subaccounts.push({
+            ...await toBalance(balance.denom, toHuman(balance.deposit!.totalBalance)),
+            subaccountId: balance.subaccountId,
+            available: toHuman(balance.deposit!.availableBalance)
+        });
+    }
+
+    return {
+        address,
+        bank,
+        subaccounts,
+        staking: {
+            delegated: await toBalance(STAKING_DENOM, staking.totalDelegated),
+            unbonding: await toBalance(STAKING_DENOM, staking.totalUnbonding),
+            rewards: await toBalance(STAKING_DENOM, staking.totalRewards)
+        },
+        totalUsdValue: valueInUsd ? totalUsdValue.toFixed(2) : null
+    };
+}
@@ -0,0 +1,175 @@
+import { BigNumber } from '@injectivelabs/utils';
+import { fromBaseUnits, toBaseUnits, toHumanPrice } from './amounts.js';
+import { ToolError } from './errors.js';
+import { fetchSpotOrderbook } from './markets.js';
+import type { OrderbookLevel, SpotMarketInfo, SpotOrderbook } from './markets.js';
+import type { NetworkContext } from './network.js';
+import { getTokenMetadata } from './tokens.js';
+
+/**
+ * Deterministic swap quote computed from the live orderbook. Amounts and prices are human units
+ * except the chain* fields, which are ready for order construction.
+ */
+export interface SwapQuote {
+    marketId: string;
+    ticker: string;
+    side: 'buy' | 'sell';
+    fromDenom: string;
+    toDenom: string;
+    inputAmount: string;
+    filledInputAmount: string;
+    unfilledInputAmount: string;
+    expectedOutputAmount: string;
+    averagePrice: string;
+    bestPrice: string;
+    worstPrice: string;
+    priceImpact: string; // Percentage of the average price away from the best price
+    fee: string;
+    feeDenom: string;
+    takerFeeRate: string;
+    levelsUsed: number;
+    chainWorstPrice: string;
+    chainQuantity: string;
+}
+
+/**
+ * Result of walking orderbook levels, all in chain units
+ */
+export interface OrderbookFill {
+    filledInput: BigNumber;
+    unfilledInput: BigNumber;
+    quantity: BigNumber; // Base units received (buy) or sold (sell)
+    notional: BigNumber; // Quote units paid or received before fees
+    fee: BigNumber;
+    output: BigNumber; // Base units (buy) or quote units after fees (sell)
+    bestPrice: BigNumber;
+    worstPrice: BigNumber;
+    averagePrice: BigNumber;
+    levelsUsed: number;
+}
+
+/**
+ * Walks orderbook levels to fill an input amount given in chain units.
+ * Buys spend a quote budget against the sells, with the taker fee paid on top of the notional;
+ * sells sell a base quantity into the buys, with the taker fee deducted from the proceeds.
+ */
+export function walkOrderbook(orderbook: SpotOrderbook, side: 'buy' | 'sell', input: BigNumber, takerFeeRate: BigNumber): OrderbookFill {
+    const levels: OrderbookLevel[] = side === 'buy' ? orderbook.sells : orderbook.buys;
+    if (levels.length === 0) {
+        throw new ToolError('EMPTY_ORDERBOOK', `No ${side === 'buy' ? 'sell' : 'buy'} orders in the orderbook`);
+    }
+
+    const feeMultiplier = takerFeeRate.plus(1);
+    // For buys the fee comes out of the budget, so only budget / (1 + fee) is available for the notional
+    let remaining = side === 'buy' ? input.div(feeMultiplier) : input;
+    let quantity = new BigNumber(0);
+    let notional = new BigNumber(0);
+    let worstPrice = new BigNumber(levels[0].price);
+    let levelsUsed = 0;
+
+    for (const level of levels) {
+        if (remaining.lte(0)) {
+            break;
+        }
+
+        const price = new BigNumber(level.price);
+        const levelQuantity = new BigNumber(level.quantity);
+        levelsUsed++;
+        worstPrice = price;
+
+        if (side === 'buy') {
+            const levelNotional = price.times(levelQuantity);
+            const spend = BigNumber.min(remaining, levelNotional);
+            quantity = quantity.plus(spend.div(price));
+            notional = notional.plus(spend);
+            remaining = remaining.minus(spend);
+        } else {
+            const fill = BigNumber.min(remaining, levelQuantity);
+            quantity = quantity.plus(fill);
+            notional = notional.plus(fill.times(price));
+            remaining = remaining.minus(fill);
+        }
+    }
+
+    const fee = notional.times(takerFeeRate);
+    const filledInput = side === 'buy' ? notional.plus(fee) : quantity;
+
+    return {
+        filledInput,
+        unfilledInput: input.minus(filledInput),
+        quantity,
+        notional,
+        fee,
+        output: side === 'buy' ? quantity : notional.minus(fee),
+        bestPrice: new BigNumber(levels[0].price),
+        worstPrice,
+        averagePrice: quantity.gt(0) ? notional.div(quantity) : new BigNumber(0),
+        levelsUsed
+    };
+}
+
+/**
+ * Quotes a swap of `amount` (human units) of fromDenom into toDenom on a given spot market
+ */
+export async function quoteMarketSwap(
+    network: NetworkContext,
+    market: SpotMarketInfo,
+    fromDenom: string,
+    amount: string,
+    orderbook?: SpotOrderbook
+): Promise<SwapQuote> {
+    const side = market.quoteDenom === fromDenom ? 'buy' : 'sell';
+    const toDenom = side === 'buy' ? market.baseDenom : market.quoteDenom;
+
+    const { decimals: baseDecimals } = await getTokenMetadata(market.baseDenom, network);
+    const { decimals: quoteDecimals } = await getTokenMetadata(market.quoteDenom, network);
+    const inputDecimals = side === 'buy' ? quoteDecimals : baseDecimals;
+    const outputDecimals = side === 'buy' ? baseDecimals : quoteDecimals;
+
+    const book = orderbook ?? await fetchSpotOrderbook(network, market.marketId);
+    const fill = walkOrderbook(book, side, new BigNumber(toBaseUnits(amount, inputDecimals)), new BigNumber(market.takerFeeRate));
+
+    if (fill.quantity.lte(0)) {
+        throw new ToolError('NO_LIQUIDITY', `Orderbook for ${market.ticker || market.marketId} cannot fill any of the swap`);
+    }
+
+    const priceImpact = fill.averagePrice.minus(fill.bestPrice).abs().div(fill.bestPrice).times(100);
+
+    return {
+        marketId: market.marketId,
+        ticker: market.ticker,
+        side,
+        fromDenom,
+        toDenom,
+        inputAmount: amount,
+        filledInputAmount: fromBaseUnits(fill.filledInput.decimalPlaces(0, BigNumber.ROUND_UP), inputDecimals),
+        unfilledInputAmount: fromBaseUnits(BigNumber.max(fill.unfilledInput, 0).decimalPlaces(0, BigNumber.ROUND_DOWN), inputDecimals),
+        expectedOutputAmount: fromBaseUnits(fill.output.decimalPlaces(0, BigNumber.ROUND_DOWN), outputDecimals),
+        averagePrice: toHumanPrice(fill.averagePrice, baseDecimals, quoteDecimals),
+        bestPrice: toHumanPrice(fill.bestPrice, baseDecimals, quoteDecimals),
+        worstPrice: toHumanPrice(fill.worstPrice, baseDecimals, quoteDecimals),
+        priceImpact: priceImpact.toFixed(4),
+        fee: fromBaseUnits(fill.fee.decimalPlaces(0, BigNumber.ROUND_UP), quoteDecimals),
+        feeDenom: market.quoteDenom,
+        takerFeeRate: market.takerFeeRate,
+        levelsUsed: fill.levelsUsed,
+        chainWorstPrice: fill.worstPrice.toFixed(),
+        chainQuantity: fill.quantity.toFixed()
+    };
+}
+
+/**
+ * Rejects quotes that cannot be fully filled or that move the price more than the caller allows
+ */
+export function assertQuoteExecutable(quote: SwapQuote, maxPriceImpact?: number) {
+    if (new BigNumber(quote.unfilledInputAmount).gt(0)) {
+        throw new ToolError('INSUFFICIENT_LIQUIDITY',
+            `Orderbook for ${quote.ticker || quote.marketId} can only fill ${quote.filledInputAmount} of ${quote.inputAmount} ${quote.fromDenom}`,
+            { unfilledInputAmount: quote.unfilledInputAmount });
+    }
+    if (maxPriceImpact !== undefined && new BigNumber(quote.priceImpact).gt(maxPriceImpact)) {
+        throw new ToolError('PRICE_IMPACT_TOO_HIGH',
+            `Price impact of ${quote.priceImpact}% on ${quote.ticker || quote.marketId} exceeds the maximum of ${maxPriceImpact}%`,
+            { priceImpact: quote.priceImpact, maxPriceImpact });
+    }
+}
@@ -0,0 +1,166 @@
+import { BigNumber } from '@injectivelabs/utils';
+import type { BroadcastResult } from './broadcast.js';
+import { ToolError } from './errors.js';
+import { fetchSpotMarkets, fetchSpotOrderbook } from './markets.js';
+import type { SpotMarketInfo, SpotOrderbook } from './markets.js';
+import type { NetworkContext } from './network.js';
+import { quoteMarketSwap } from './quote.js';
+import type { SwapQuote } from './quote.js';
+
+// Longest route considered, in market legs
+const MAX_ROUTE_LEGS = 3;
+
+// Upper bound on candidate routes quoted per request, shortest first, to bound orderbook fetches
+const MAX_ROUTES_QUOTED = 12;
+
+/**
+ * A chain of spot markets leading from one denom to another, with each leg's quote
+ */
+export interface RouteQuote {
+    path: string[]; // Denoms visited, from source to destination
+    markets: SpotMarketInfo[];
+    legs: SwapQuote[];
+    fromDenom: string;
+    toDenom: string;
+    inputAmount: string;
+    expectedOutputAmount: string;
+}
+
+/**
+ * Outcome of one executed route leg. receivedAmount is the measured change in the wallet's bank balance.
+ */
+export interface SwapLegResult {
+    marketId: string;
+    ticker: string;
+    side: 'buy' | 'sell';
+    fromDenom: string;
+    toDenom: string;
+    inputAmount: string;
+    estimatedOutputAmount: string;
+    receivedAmount: string;
+    executionPrice: string;
+    priceImpact: string;
+    tx: BroadcastResult;
+}
+
+/**
+ * Enumerates routes between two denoms over the spot market graph.
+ * Intermediate hops are restricted to quote assets (USDT, INJ, ...), the denoms markets are priced in.
+ */
+export function findRoutes(markets: SpotMarketInfo[], fromDenom: string, toDenom: string): SpotMarketInfo[][] {
+    const quoteAssets = new Set(markets.map((m) => m.quoteDenom));
+    const edges = new Map<string, SpotMarketInfo[]>();
+    for (const market of markets) {
+        for (const denom of [market.baseDenom, market.quoteDenom]) {
+            edges.set(denom, [...(edges.get(denom) || []), market]);
+        }
+    }
+
+    const routes: SpotMarketInfo[][] = [];
+    const walk = (denom: string, visited: string[], legs: SpotMarketInfo[]) => {
+        if (legs.length === MAX_ROUTE_LEGS) {
+            return;
+        }
+        for (const market of edges.get(denom) || []) {
+            const next = market.baseDenom === denom ? market.quoteDenom : market.baseDenom;
+            if (visited.includes(next)) {
+                continue;
+            }
+            if (next === toDenom) {
+                routes.push([...legs, market]);
+            } else if (quoteAssets.has(next)) {
+                walk(next, [...visited, next], [...legs, market]);
+            }
+        }
+    };
+    walk(fromDenom, [fromDenom], []);
+
+    return routes.sort((a, b) => a.length - b.length);
+}
+
+/**
+ * Lists the routes worth quoting between two denoms: only through active markets, shortest first,
+ * and at most MAX_ROUTES_QUOTED of them
+ */
+export function findCandidateRoutes(markets: SpotMarketInfo[], fromDenom: string, toDenom: string): SpotMarketInfo[][] {
+    // Orders on paused or demolished markets fail on-chain after paying gas, so they are never routed through
+    const activeMarkets = markets.filter((market) => market.marketStatus === 'active');
+    return findRoutes(activeMarkets, fromDenom, toDenom).slice(0, MAX_ROUTES_QUOTED);
+}
+
+/**
+ * Quotes a route leg by leg, feeding each leg's expected output into the next
+ */
+export async function quoteRoute(
+    network: NetworkContext,
+    route: SpotMarketInfo[],
+    fromDenom: string,
+    amount: string,
+    orderbooks: Map<string, SpotOrderbook> = new Map()
+): Promise<RouteQuote> {
+    const legs: SwapQuote[] = [];
+    const path = [fromDenom];
+    let legInput = amount;
+
+    for (const market of route) {
+        let orderbook = orderbooks.get(market.marketId);
+        if (!orderbook) {
+            orderbook = await fetchSpotOrderbook(network, market.marketId);
+            orderbooks.set(market.marketId, orderbook);
+        }
+
+        const quote = await quoteMarketSwap(network, market, path[path.length - 1], legInput, orderbook);
+        legs.push(quote);
+        path.push(quote.toDenom);
+        legInput = quote.expectedOutputAmount;
+
+        if (new BigNumber(legInput).lte(0)) {
+            throw new ToolError('NO_LIQUIDITY', `Route leg ${market.ticker || market.marketId} yields nothing`);
+        }
+    }
+
+    return {
+        path,
+        markets: route,
+        legs,
+        fromDenom,
+        toDenom: path[path.length - 1],
+        inputAmount: amount,
+        expectedOutputAmount: legInput
+    };
+}
+
+/**
+ * Finds the route with the highest quoted output across orderbook depth, direct or multi-hop
+ */
+export async function findBestRoute(network: NetworkContext, fromDenom: string, toDenom: string, amount: string): Promise<RouteQuote> {
+    const routes = findCandidateRoutes(await fetchSpotMarkets(network), fromDenom, toDenom);
+    if (routes.length === 0) {
+        throw new ToolError('NO_ROUTE', `No spot market route found from ${fromDenom} to ${toDenom} on ${network.name}`);
+    }
+
+    const orderbooks = new Map<string, SpotOrderbook>();
+    const failures: string[] = [];
+    let best: RouteQuote | null = null;
+
+    for (const route of routes) {
+        try {
+            const quote = await quoteRoute(network, route, fromDenom, amount, orderbooks);
+            // Routes that can't absorb the whole amount only win if nothing else can
+            const fullyFilled = quote.legs.every((leg) => new BigNumber(leg.unfilledInputAmount).isZero());
+            const bestFullyFilled = best?.legs.every((leg) => new BigNumber(leg.unfilledInputAmount).isZero());
+            if (!best ||
+                (fullyFilled && !bestFullyFilled) ||
+                (fullyFilled === bestFullyFilled && new BigNumber(quote.expectedOutputAmount).gt(best.expectedOutputAmount))) {
+                best = quote;
+            }
+        } catch (error: any) {
+            failures.push(`${route.map((m) => m.ticker || m.marketId).join(' -> ')}: ${error.message}`);
+        }
+    }
+
+    if (!best) {
+        throw new ToolError('NO_ROUTE', `No route from ${fromDenom} to ${toDenom} could be quoted: ${failures.join('; ')}`, { failures });
+    }
+    return best;
+}
@@ -0,0 +1,145 @@
+import { BigNumber } from '@injectivelabs/utils';
+import { fromBaseUnits, toHumanPrice } from './amounts.js';
+import { ToolError } from './errors.js';
+import { fetchSpotMarket } from './markets.js';
+import type { SpotMarketInfo } from './markets.js';
+import type { NetworkContext } from './network.js';
+import { getTokenMetadata } from './tokens.js';
+import type { TokenMetadata } from './tokens.js';
+
+/**
+ * Order constraints of a spot market, in chain format like the orders they apply to
+ */
+export interface MarketRules {
+    marketId: string;
+    ticker: string;
+    baseDenom: string;
+    quoteDenom: string;
+    minPriceTickSize: string;
+    minQuantityTickSize: string;
+    minNotional: string; // Quote base units
+}
+
+/**
+ * Price and quantity snapped to the market's ticks, ready for an order message
+ */
+export interface QuantizedOrder {
+    price: string;
+    quantity: string;
+}
+
+// Rules per network name and market id, fetched at most once per session since they rarely change
+const marketRulesCache = new Map<string, MarketRules>();
+
+function toMarketRules(market: SpotMarketInfo): MarketRules {
+    return {
+        marketId: market.marketId,
+        ticker: market.ticker,
+        baseDenom: market.baseDenom,
+        quoteDenom: market.quoteDenom,
+        minPriceTickSize: market.minPriceTickSize,
+        minQuantityTickSize: market.minQuantityTickSize,
+        minNotional: market.minNotional
+    };
+}
+
+/**
+ * Returns the tick sizes and minimum notional of a spot market, from the session cache when possible
+ */
+export async function getMarketRules(network: NetworkContext, marketId: string): Promise<MarketRules> {
+    const key = `${network.name}:${marketId}`;
+    const cached = marketRulesCache.get(key);
+    if (cached) {
+        return cached;
+    }
+
+    const rules = toMarketRules(await fetchSpotMarket(network, marketId));
+    marketRulesCache.set(key, rules);
+    return rules;
+}
+
+/**
+ * Snaps a value to a multiple of the tick size; a zero tick leaves it unchanged
+ */
+function snapToTick(value: BigNumber, tickSize: string, roundingMode: BigNumber.RoundingMode): BigNumber {
+    const tick = new BigNumber(tickSize);
+    if (tick.lte(0)) {
+        return value;
+    }
+    return value.div(tick).integerValue(roundingMode).times(tick);
+}
+
+/**
+ * Snaps a chain price to the price tick, never past the caller's limit:
+ * buys round down (pay no more), sells round up (receive no less)
+ */
+export function quantizePrice(price: string | BigNumber, side: 'buy' | 'sell', rules: Pick<MarketRules, 'minPriceTickSize'>): BigNumber {
+    return snapToTick(new BigNumber(price), rules.minPriceTickSize, side === 'buy' ? BigNumber.ROUND_DOWN : BigNumber.ROUND_UP);
+}
+
+/**
+ * Snaps a chain quantity down to the quantity tick, so an order never trades more than intended
+ */
+export function quantizeQuantity(quantity: string | BigNumber, rules: Pick<MarketRules, 'minQuantityTickSize'>): BigNumber {
+    return snapToTick(new BigNumber(quantity), rules.minQuantityTickSize, BigNumber.ROUND_DOWN);
+}
+
+/**
+ * Quantizes a spot order and checks it against the market rules before broadcast.
+ * Errors quote the limits in human units so they can be acted on.
+ */
+export async function prepareSpotOrder(
+    network: NetworkContext,
+    marketId: string,
+    side: 'buy' | 'sell',
+    price: string | BigNumber,
+    quantity: string | BigNumber
+): Promise<QuantizedOrder> {
+    const rules = await getMarketRules(network, marketId);
+    const base = await getTokenMetadata(rules.baseDenom, network);
+    const quote = await getTokenMetadata(rules.quoteDenom, network);
+    return quantizeSpotOrder(rules, base, quote, side, price, quantity);
+}
+
+/**
+ * Quantizes a spot order with known market rules and token metadata, see prepareSpotOrder
+ */
+export function quantizeSpotOrder(
+    rules: MarketRules,
+    { decimals: baseDecimals, symbol: baseSymbol }: Pick<TokenMetadata, 'decimals' | 'symbol'>,
+    { decimals: quoteDecimals, symbol: quoteSymbol }: Pick<TokenMetadata, 'decimals' | 'symbol'>,
+    side: 'buy' | 'sell',
+    price: string | BigNumber,
+    quantity: string | BigNumber
+): QuantizedOrder {
+    const market = rules.ticker || rules.marketId;
+
+    const quantizedPrice = quantizePrice(price, side, rules);
+    if (quantizedPrice.lte(0)) {
+        throw new ToolError('PRICE_BELOW_TICK',
+            `Price ${toHumanPrice(price, baseDecimals, quoteDecimals)} is below the minimum price tick of ${market} ` +
+            `(${toHumanPrice(rules.minPriceTickSize, baseDecimals, quoteDecimals)} ${quoteSymbol})`,
+            { minPriceTickSize: rules.minPriceTickSize });
+    }
+
+    const quantizedQuantity = quantizeQuantity(quantity, rules);
+    if (quantizedQuantity.lte(0)) {
+        throw new ToolError('QUANTITY_BELOW_TICK',
+            `Quantity ${fromBaseUnits(new BigNumber(quantity).decimalPlaces(0, BigNumber.ROUND_DOWN), baseDecimals)} ${baseSymbol} ` +
+            `is below the minimum quantity tick of ${market} (${fromBaseUnits(rules.minQuantityTickSize, baseDecimals)} ${baseSymbol})`,
+            { minQuantityTickSize: rules.minQuantityTickSize });
+    }
+
+    const notional = quantizedPrice.times(quantizedQuantity);
+    if (notional.lt(rules.minNotional)) {
+        throw new ToolError('BELOW_MIN_NOTIONAL',
+            `Order value of ${fromBaseUnits(notional.decimalPlaces(0, BigNumber.ROUND_DOWN), quoteDecimals)} ${quoteSymbol} ` +
+            `is below the minimum notional of ${market} (${fromBaseUnits(rules.minNotional, quoteDecimals)} ${quoteSymbol})`,
+            { minNotional: rules.minNotional, notional: notional.toFixed() });
+    }
+
+    return {
+        price: quantizedPrice.toFixed(),
+        quantity: quantizedQuantity.toFixed()
+    };
+}
@@ -0,0 +1,278 @@
+import type { PrivateKey } from '@injectivelabs/sdk-ts';
+import { BigNumber } from '@injectivelabs/utils';
+import { fromBaseUnits, toBaseUnits } from './amounts.js';
+import { broadcastMsgs } from './broadcast.js';
+import type { BroadcastResult } from './broadcast.js';
+import { ToolError } from './errors.js';
+import type { NetworkContext } from './network.js';
+import { getTokenMetadata } from './tokens.js';
+
+// INJ is the only bondable token
+export const STAKING_DENOM = 'inj';
+
+export interface ValidatorSummary {
+    operatorAddress: string;
+    moniker: string;
+    status: string;
+    jailed: boolean;
+    tokens: string; // Bonded INJ
+    votingPower: string; // Percentage of all bonded tokens
+    commissionRate: string; // Percentage
+}
+
+export interface StakingPosition {
+    address: string;
+    totalDelegated: string;
+    totalUnbonding: string;
+    totalRewards: string;
+    delegations: { validatorAddress: string; moniker: string; amount: string }[];
+    unbonding: { validatorAddress: string; moniker: string; amount: string; completionTime: string }[];
+    rewards: { validatorAddress: string; moniker: string; amount: string }[];
+}
+
+function assertValidatorAddress(address: string) {
+    if (!address.startsWith('injvaloper1')) {
+        throw new ToolError('INVALID_VALIDATOR', `${address} is not a validator operator address (injvaloper1...)`);
+    }
+}
+
+async function stakingDecimals(network: NetworkContext): Promise<number> {
+    return (await getTokenMetadata(STAKING_DENOM, network)).decimals;
+}
+
+/**
+ * Fetches every validator, following pagination
+ */
+async function fetchAllValidators(network: NetworkContext) {
+    const { ChainGrpcStakingApi } = await import('@injectivelabs/sdk-ts');
+    const chainGrpcStakingApi = new ChainGrpcStakingApi(network.endpoints.grpc);
+
+    const validators = [];
+    let key: string | undefined;
+    try {
+        do {
+            const response = await chainGrpcStakingApi.fetchValidators({ key, limit: 200 });
+            validators.push(...response.validators);
+            key = response.pagination.next ?? undefined;
+        } while (key);
+    } catch (error: any) {
+        throw new ToolError('VALIDATORS_UNAVAILABLE', `Failed to fetch validators from ${network.name}: ${error.message}`);
+    }
+    return validators;
+}
+
+/**
+ * Lists validators by voting power, bonded ones only unless includeInactive is set
+ */
+export async function listValidators(network: NetworkContext, includeInactive: boolean = false): Promise<ValidatorSummary[]> {
+    const decimals = await stakingDecimals(network);
+    const validators = (await fetchAllValidators(network))
+        .filter((validator) => includeInactive || (validator.status === 'Bonded' && !validator.jailed));
+    const totalBonded = validators
+        .filter((validator) => validator.status === 'Bonded')
+        .reduce((total, validator) => total.plus(validator.tokens), new BigNumber(0));
+
+    return validators
+        .sort((a, b) => new BigNumber(b.tokens).comparedTo(a.tokens))
+        .map((validator) => ({
+            operatorAddress: validator.operatorAddress,
+            moniker: validator.description.moniker,
+            status: validator.status,
+            jailed: validator.jailed,
+            tokens: fromBaseUnits(new BigNumber(validator.tokens).decimalPlaces(0, BigNumber.ROUND_DOWN), decimals),
+            votingPower: totalBonded.gt(0) && validator.status === 'Bonded'
+                ? new BigNumber(validator.tokens).div(totalBonded).times(100).toFixed(2)
+                : '0',
+            commissionRate: new BigNumber(validator.commission.commissionRates.rate).times(100).toFixed(2)
+        }));
+}
+
+/**
+ * Collects an address's delegations, unbonding entries and pending rewards in INJ
+ */
+export async function getStakingPosition(network: NetworkContext, address: string): Promise<StakingPosition> {
+    const { ChainGrpcStakingApi, ChainGrpcDistributionApi } = await import('@injectivelabs/sdk-ts');
+    const chainGrpcStakingApi = new ChainGrpcStakingApi(network.endpoints.grpc);
+    const chainGrpcDistributionApi = new ChainGrpcDistributionApi(network.endpoints.grpc);
+    const decimals = await stakingDecimals(network);
+
+    let delegations, unbondingDelegations, validatorRewards;
+    try {
+        ({ delegations } = await chainGrpcStakingApi.fetchDelegations({ injectiveAddress: address }));
+        ({ unbondingDelegations } = await chainGrpcStakingApi.fetchUnbondingDelegations({ injectiveAddress: address }));
+        validatorRewards = await chainGrpcDistributionApi.fetchDelegatorRewards(address);
+    } catch (error: any) {
+        throw new ToolError('STAKING_UNAVAILABLE', `Failed to fetch the staking position of ${address}: ${error.message}`);
+    }
+
+    const monikers = new Map((await fetchAllValidators(network)).map((v) => [v.operatorAddress, v.description.moniker]));
+    const moniker = (validatorAddress: string) => monikers.get(validatorAddress) ?? '';
+    // Rewards accrue as fractional base units
+    const toInj = (amount: string | BigNumber) => fromBaseUnits(new BigNumber(amount).decimalPlaces(0, BigNumber.ROUND_DOWN), decimals);
+
+    const delegated = delegations.map((d) => ({
+        validatorAddress: d.delegation.validatorAddress,
+        moniker: moniker(d.delegation.validatorAddress),
+        amount: new BigNumber(d.balance.amount)
+    }));
+    const unbonding = unbondingDelegations.map((u) => ({
+        validatorAddress: u.validatorAddress,
+        moniker: moniker(u.validatorAddress),
+        amount: new BigNumber(u.balance),
+        completionTime: new Date(u.completionTime * 1000).toISOString()
+    }));
+    const rewards = validatorRewards.map((r) => ({
+        validatorAddress: r.validatorAddress,
+        moniker: moniker(r.validatorAddress),
+        amount: r.rewards
+            .filter((coin) => coin.denom === STAKING_DENOM)
+            .reduce((total, coin) => total.plus(coin.amount), new BigNumber(0))
+    }));
+
+    const sum = (entries: { amount: BigNumber }[]) => entries.reduce((total, entry) => total.plus(entry.amount), new BigNumber(0));
+
+    return {
+        address,
+        totalDelegated: toInj(sum(delegated)),
+        totalUnbonding: toInj(sum(unbonding)),
+        totalRewards: toInj(sum(rewards)),
+        delegations: delegated.map((d) => ({ ...d, amount: toInj(d.amount) })),
+        unbonding: unbonding.map((u) => ({ ...u, amount: toInj(u.amount) })),
+        rewards: rewards.filter((r) => r.amount.gt(0)).map((r) => ({ ...r, amount: toInj(r.amount) }))
+    };
+}
+
+/**
+ * Reads the amount of INJ (base units) an address has delegated to a validator, 0 if none
+ */
+async function fetchDelegatedAmount(network: NetworkContext, address: string, validatorAddress: string): Promise<BigNumber> {
+    const { ChainGrpcStakingApi } = await import('@injectivelabs/sdk-ts');
+    const chainGrpcStakingApi = new ChainGrpcStakingApi(network.endpoints.grpc);
+    const { delegations } = await chainGrpcStakingApi.fetchDelegations({ injectiveAddress: address });
+    const delegation = delegations.find((d) => d.delegation.validatorAddress === validatorAddress);
+    return new BigNumber(delegation?.balance.amount ?? 0);
+}
+
+/**
+ * Fails when the address has less than `amount` (base units) delegated to the validator
+ */
+async function assertDelegated(network: NetworkContext, address: string, validatorAddress: string, amount: string) {
+    const delegated = await fetchDelegatedAmount(network, address, validatorAddress);
+    if (delegated.lt(amount)) {
+        const decimals = await stakingDecimals(network);
+        throw new ToolError('INSUFFICIENT_DELEGATION',
+            `Only ${fromBaseUnits(delegated, decimals)} INJ is delegated to ${validatorAddress}, ` +
+            `cannot move ${fromBaseUnits(amount, decimals)} INJ`);
+    }
+}
+
+/**
+ * Fails when the validator does not exist
+ */
+async function assertValidatorExists(network: NetworkContext, validatorAddress: string) {
+    const { ChainGrpcStakingApi } = await import('@injectivelabs/sdk-ts');
+    assertValidatorAddress(validatorAddress);
+    try {
+        await new ChainGrpcStakingApi(network.endpoints.grpc).fetchValidator(validatorAddress);
+    } catch {
+        throw new ToolError('VALIDATOR_NOT_FOUND', `Validator ${validatorAddress} not found on ${network.name}`);
+    }
+}
+
+/**
+ * Delegates `amount` INJ to a validator
+ */
+export async function delegate(network: NetworkContext, privateKey: PrivateKey, validatorAddress: string, amount: string): Promise<BroadcastResult> {
+    const { MsgDelegate } = await import('@injectivelabs/sdk-ts');
+    await assertValidatorExists(network, validatorAddress);
+
+    const coin = { denom: STAKING_DENOM, amount: toBaseUnits(amount, await stakingDecimals(network)) };
+    const msg = MsgDelegate.fromJSON({
+        injectiveAddress: privateKey.toBech32(),
+        validatorAddress,
+        amount: coin
+    });
+    return broadcastMsgs(network, privateKey, [msg], `delegation to ${validatorAddress}`, { spend: [coin], recipients: [validatorAddress] });
+}
+
+/**
+ * Starts unbonding `amount` INJ from a validator. The tokens return after the chain's unbonding period.
+ */
+export async function undelegate(network: NetworkContext, privateKey: PrivateKey, validatorAddress: string, amount: string): Promise<BroadcastResult> {
+    const { MsgUndelegate } = await import('@injectivelabs/sdk-ts');
+    assertValidatorAddress(validatorAddress);
+
+    const injectiveAddress = privateKey.toBech32();
+    const baseAmount = toBaseUnits(amount, await stakingDecimals(network));
+    await assertDelegated(network, injectiveAddress, validatorAddress, baseAmount);
+
+    const msg = MsgUndelegate.fromJSON({
+        injectiveAddress,
+        validatorAddress,
+        amount: { denom: STAKING_DENOM, amount: baseAmount }
+    });
+    return broadcastMsgs(network, privateKey, [msg], `undelegation from ${validatorAddress}`);
+}
+
+/**
+ * Moves `amount` INJ of stake from one validator to another without unbonding
+ */
+export async function redelegate(
+    network: NetworkContext,
+    privateKey: PrivateKey,
+    srcValidatorAddress: string,
+    dstValidatorAddress: string,
+    amount: string
+): Promise<BroadcastResult> {
+    const { MsgBeginRedelegate } = await import('@injectivelabs/sdk-ts');
+    assertValidatorAddress(srcValidatorAddress);
+    if (srcValidatorAddress === dstValidatorAddress) {
+        throw new ToolError('INVALID_VALIDATOR', 'Source and destination validators must differ');
+    }
+    await assertValidatorExists(network, dstValidatorAddress);
+
+    const injectiveAddress = privateKey.toBech32();
+    const baseAmount = toBaseUnits(amount, await stakingDecimals(network));
+    await assertDelegated(network, injectiveAddress, srcValidatorAddress, baseAmount);
+
+    const coin = { denom: STAKING_DENOM, amount: baseAmount };
+    const msg = MsgBeginRedelegate.fromJSON({
+        injectiveAddress,
+        srcValidatorAddress,
+        dstValidatorAddress,
+        amount: coin
+    });
+    // The stake is already bonded, so nothing comes from the bank balance, but the policy still counts the move
+    return broadcastMsgs(network, privateKey, [msg], `redelegation from ${srcValidatorAddress} to ${dstValidatorAddress}`,
+        { spend: [], policySpend: [coin], recipients: [dstValidatorAddress] });
+}
+
+/**
+ * Withdraws pending rewards from one validator, or from every validator with rewards in a single transaction
+ */
+export async function claimRewards(network: NetworkContext, privateKey: PrivateKey, validatorAddress?: string) {
+    const { MsgWithdrawDelegatorReward } = await import('@injectivelabs/sdk-ts');
+    const injectiveAddress = privateKey.toBech32();
+    const position = await getStakingPosition(network, injectiveAddress);
+
+    let rewards = position.rewards;
+    if (validatorAddress) {
+        assertValidatorAddress(validatorAddress);
+        rewards = rewards.filter((r) => r.validatorAddress === validatorAddress);
+    }
+    if (rewards.length === 0) {
+        throw new ToolError('NO_REWARDS', `No pending rewards${validatorAddress ? ` from ${validatorAddress}` : ''} for ${injectiveAddress}`);
+    }
+
+    const msgs = rewards.map((r) => MsgWithdrawDelegatorReward.fromJSON({
+        delegatorAddress: injectiveAddress,
+        validatorAddress: r.validatorAddress
+    }));
+    const tx = await broadcastMsgs(network, privateKey, msgs, 'reward withdrawal');
+
+    return {
+        tx,
+        validators: rewards.map((r) => r.validatorAddress),
+        amount: rewards.reduce((sum, r) => sum.plus(r.amount), new BigNumber(0)).toFixed()
+    };
+}
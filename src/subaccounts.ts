@@ -0,0 +1,214 @@
+import type { PrivateKey } from '@injectivelabs/sdk-ts';
+import { BigNumber } from '@injectivelabs/utils';
+import { fromBaseUnits, toBaseUnits } from './amounts.js';
+import { broadcastMsgs } from './broadcast.js';
+import type { BroadcastResult } from './broadcast.js';
+import { ToolError } from './errors.js';
+import type { NetworkContext } from './network.js';
+import { getTokenMetadata, normalizeDenom } from './tokens.js';
+
+// Highest subaccount nonce the exchange module accepts
+export const MAX_SUBACCOUNT_INDEX = 999;
+
+export interface SubaccountBalanceSummary {
+    denom: string;
+    symbol: string;
+    total: string; // Human units, including funds locked in orders and margin
+    available: string; // Human units
+}
+
+export interface SubaccountSummary {
+    index: number;
+    subaccountId: string;
+    balances: SubaccountBalanceSummary[];
+}
+
+export interface SubaccountMovement {
+    tx: BroadcastResult;
+    amount: string;
+    symbol: string;
+    denom: string;
+}
+
+/**
+ * Builds the subaccount id of an address: its 20-byte hex address followed by the index as a 12-byte big-endian nonce.
+ * Index 0 is the default subaccount that trading tools use unless told otherwise.
+ */
+export async function toSubaccountId(address: string, index: number = 0): Promise<string> {
+    const { getEthereumAddress } = await import('@injectivelabs/sdk-ts');
+    if (!Number.isInteger(index) || index < 0 || index > MAX_SUBACCOUNT_INDEX) {
+        throw new ToolError('INVALID_SUBACCOUNT', `Subaccount index must be a whole number from 0 to ${MAX_SUBACCOUNT_INDEX}, got ${index}`);
+    }
+    return `${getEthereumAddress(address).toLowerCase()}${index.toString(16).padStart(24, '0')}`;
+}
+
+export function subaccountIndexOf(subaccountId: string): number {
+    return parseInt(subaccountId.slice(-24), 16);
+}
+
+/**
+ * Fetches the exchange deposits of every subaccount of an address from the indexer
+ */
+export async function fetchAllSubaccountBalances(network: NetworkContext, address: string) {
+    const { IndexerGrpcAccountApi } = await import('@injectivelabs/sdk-ts');
+    const indexerGrpcAccountApi = new IndexerGrpcAccountApi(network.endpoints.indexer);
+
+    try {
+        const balances = [];
+        for (const subaccountId of await indexerGrpcAccountApi.fetchSubaccountsList(address)) {
+            balances.push(...await indexerGrpcAccountApi.fetchSubaccountBalancesList(subaccountId));
+        }
+        return balances.filter((balance) => balance.deposit && new BigNumber(balance.deposit.totalBalance).gt(0));
+    } catch (error: any) {
+        throw new ToolError('BALANCES_UNAVAILABLE', `Failed to fetch subaccount balances of ${address} from ${network.name}: ${error.message}`);
+    }
+}
+
+/**
+ * Reads the available balance of a denom in a subaccount, in whole base units
+ */
+export async function fetchSubaccountAvailableBalance(network: NetworkContext, subaccountId: string, denom: string): Promise<BigNumber> {
+    const { IndexerGrpcAccountApi } = await import('@injectivelabs/sdk-ts');
+
+    let balance;
+    try {
+        balance = await new IndexerGrpcAccountApi(network.endpoints.indexer).fetchSubaccountBalance(subaccountId, denom);
+    } catch {
+        // Subaccounts that never held the denom are reported as not found
+        return new BigNumber(0);
+    }
+    // Deposits are tracked with fractional base units
+    return new BigNumber(balance?.deposit?.availableBalance || 0).decimalPlaces(0, BigNumber.ROUND_DOWN);
+}
+
+async function assertSubaccountCovers(network: NetworkContext, subaccountId: string, denom: string, baseAmount: string) {
+    const available = await fetchSubaccountAvailableBalance(network, subaccountId, denom);
+    if (available.lt(baseAmount)) {
+        const { symbol, decimals } = await getTokenMetadata(denom, network);
+        throw new ToolError('INSUFFICIENT_FUNDS',
+            `Subaccount ${subaccountIndexOf(subaccountId)} has ${fromBaseUnits(available, decimals)} ${symbol} available, ` +
+            `less than ${fromBaseUnits(baseAmount, decimals)} ${symbol}`);
+    }
+}
+
+/**
+ * The default subaccount trades directly from the bank balance, so it cannot be funded or drained like the others
+ */
+function assertNotDefaultSubaccount(index: number, action: string) {
+    if (index === 0) {
+        throw new ToolError('DEFAULT_SUBACCOUNT',
+            `Cannot ${action} subaccount 0: the default subaccount trades directly from the bank balance. Use an index from 1 to ${MAX_SUBACCOUNT_INDEX}`);
+    }
+}
+
+/**
+ * Lists the subaccounts of an address that hold deposits, with total and available balances per denom
+ */
+export async function listSubaccounts(network: NetworkContext, address: string): Promise<SubaccountSummary[]> {
+    const subaccounts = new Map<string, SubaccountSummary>();
+    for (const balance of await fetchAllSubaccountBalances(network, address)) {
+        const { symbol, decimals } = await getTokenMetadata(balance.denom, network);
+        const toHuman = (amount: string) => fromBaseUnits(new BigNumber(amount).decimalPlaces(0, BigNumber.ROUND_DOWN), decimals);
+
+        if (!subaccounts.has(balance.subaccountId)) {
+            subaccounts.set(balance.subaccountId, {
+                index: subaccountIndexOf(balance.subaccountId),
+                subaccountId: balance.subaccountId,
+                balances: []
+            });
+        }
+        subaccounts.get(balance.subaccountId)!.balances.push({
+            denom: balance.denom,
+            symbol,
+            total: toHuman(balance.deposit!.totalBalance),
+            available: toHuman(balance.deposit!.availableBalance)
+        });
+    }
+    return [...subaccounts.values()].sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Moves `amount` from the bank balance into a subaccount
+ */
+export async function depositToSubaccount(
+    network: NetworkContext,
+    privateKey: PrivateKey,
+    index: number,
+    amount: string,
+    denomOrSymbol: string
+): Promise<SubaccountMovement> {
+    const { MsgDeposit } = await import('@injectivelabs/sdk-ts');
+    assertNotDefaultSubaccount(index, 'deposit into');
+
+    const injectiveAddress = privateKey.toBech32();
+    const denom = await normalizeDenom(denomOrSymbol, network);
+    const { symbol, decimals } = await getTokenMetadata(denom, network);
+    const coin = { denom, amount: toBaseUnits(amount, decimals) };
+
+    const msg = MsgDeposit.fromJSON({ injectiveAddress, subaccountId: await toSubaccountId(injectiveAddress, index), amount: coin });
+    const tx = await broadcastMsgs(network, privateKey, [msg], `deposit of ${amount} ${symbol} into subaccount ${index}`, { spend: [coin] });
+    return { tx, amount, symbol, denom };
+}
+
+/**
+ * Moves `amount` from a subaccount back to the bank balance. Funds locked in orders or margin cannot be withdrawn.
+ */
+export async function withdrawFromSubaccount(
+    network: NetworkContext,
+    privateKey: PrivateKey,
+    index: number,
+    amount: string,
+    denomOrSymbol: string
+): Promise<SubaccountMovement> {
+    const { MsgWithdraw } = await import('@injectivelabs/sdk-ts');
+    assertNotDefaultSubaccount(index, 'withdraw from');
+
+    const injectiveAddress = privateKey.toBech32();
+    const subaccountId = await toSubaccountId(injectiveAddress, index);
+    const denom = await normalizeDenom(denomOrSymbol, network);
+    const { symbol, decimals } = await getTokenMetadata(denom, network);
+    const coin = { denom, amount: toBaseUnits(amount, decimals) };
+    await assertSubaccountCovers(network, subaccountId, denom, coin.amount);
+
+    const msg = MsgWithdraw.fromJSON({ injectiveAddress, subaccountId, amount: coin });
+    const tx = await broadcastMsgs(network, privateKey, [msg], `withdrawal of ${amount} ${symbol} from subaccount ${index}`, { spend: [] });
+    return { tx, amount, symbol, denom };
+}
+
+/**
+ * Moves `amount` between two subaccounts of the same address
+ */
+export async function transferBetweenSubaccounts(
+    network: NetworkContext,
+    privateKey: PrivateKey,
+    fromIndex: number,
+    toIndex: number,
+    amount: string,
+    denomOrSymbol: string
+): Promise<SubaccountMovement> {
+    const { MsgExternalTransfer } = await import('@injectivelabs/sdk-ts');
+    if (fromIndex === toIndex) {
+        throw new ToolError('INVALID_SUBACCOUNT', `Source and destination are both subaccount ${fromIndex}`);
+    }
+
+    const injectiveAddress = privateKey.toBech32();
+    const srcSubaccountId = await toSubaccountId(injectiveAddress, fromIndex);
+    const denom = await normalizeDenom(denomOrSymbol, network);
+    const { symbol, decimals } = await getTokenMetadata(denom, network);
+    const coin = { denom, amount: toBaseUnits(amount, decimals) };
+
+    // The default subaccount is backed by the bank balance, which the broadcast checks itself
+    if (fromIndex !== 0) {
+        await assertSubaccountCovers(network, srcSubaccountId, denom, coin.amount);
+    }
+
+    const msg = MsgExternalTransfer.fromJSON({
+        injectiveAddress,
+        srcSubaccountId,
+        dstSubaccountId: await toSubaccountId(injectiveAddress, toIndex),
+        amount: coin
+    });
+    const tx = await broadcastMsgs(network, privateKey, [msg], `transfer of ${amount} ${symbol} from subaccount ${fromIndex} to ${toIndex}`,
+        { spend: fromIndex === 0 ? [coin] : [], policySpend: [coin] });
+    return { tx, amount, symbol, denom };
+}
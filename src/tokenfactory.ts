@@ -0,0 +1,185 @@
+import type { PrivateKey } from '@injectivelabs/sdk-ts';
+import { fromBaseUnits, toBaseUnits } from './amounts.js';
+import { isAccountAddress } from './batch.js';
+import { broadcastMsgs } from './broadcast.js';
+import { ToolError } from './errors.js';
+import type { NetworkContext } from './network.js';
+import { cacheTokenMetadata, getTokenMetadata, normalizeDenom } from './tokens.js';
+
+export interface FactoryToken {
+    denom: string;
+    subdenom: string;
+    name: string;
+    symbol: string;
+    decimals: number;
+    supply: string; // Human units
+    admin: string | null; // Null once the admin has been renounced
+}
+
+export interface TokenMetadataUpdate {
+    name?: string;
+    symbol?: string;
+    description?: string;
+    uri?: string; // Logo or metadata document
+    uriHash?: string;
+}
+
+/**
+ * Splits factory/{creator}/{subdenom}; the subdenom may itself contain slashes
+ */
+function parseFactoryDenom(denom: string): { creator: string; subdenom: string } {
+    const [prefix, creator, ...rest] = denom.split('/');
+    if (prefix !== 'factory' || !creator || rest.length === 0) {
+        throw new ToolError('NOT_FACTORY_DENOM', `${denom} is not a token factory denom (factory/{creator}/{subdenom})`);
+    }
+    return { creator, subdenom: rest.join('/') };
+}
+
+async function fetchDenomAdmin(network: NetworkContext, denom: string): Promise<string | null> {
+    const { ChainGrpcTokenFactoryApi } = await import('@injectivelabs/sdk-ts');
+    const { creator, subdenom } = parseFactoryDenom(denom);
+
+    try {
+        const { admin } = await new ChainGrpcTokenFactoryApi(network.endpoints.grpc).fetchDenomAuthorityMetadata(creator, subdenom);
+        return admin || null;
+    } catch (error: any) {
+        throw new ToolError('DENOM_NOT_FOUND', `Token factory denom ${denom} does not exist on ${network.name}: ${error.message}`);
+    }
+}
+
+/**
+ * Resolves a denom or symbol to a factory denom whose admin is the signer, so nothing is broadcast that the chain would reject
+ */
+async function resolveAdministeredDenom(network: NetworkContext, privateKey: PrivateKey, denomOrSymbol: string): Promise<string> {
+    const denom = await normalizeDenom(denomOrSymbol, network);
+    const admin = await fetchDenomAdmin(network, denom);
+    const address = privateKey.toBech32();
+    if (admin !== address) {
+        throw new ToolError('NOT_DENOM_ADMIN',
+            `${address} is not the admin of ${denom}; ${admin ? `its admin is ${admin}` : 'its admin has been renounced'}`);
+    }
+    return denom;
+}
+
+/**
+ * Lists the token factory denoms created by an address with their metadata, supply and current admin
+ */
+export async function listCreatedTokens(network: NetworkContext, creator: string): Promise<FactoryToken[]> {
+    const { ChainGrpcBankApi, ChainGrpcTokenFactoryApi } = await import('@injectivelabs/sdk-ts');
+    const chainGrpcBankApi = new ChainGrpcBankApi(network.endpoints.grpc);
+
+    let denoms: string[];
+    try {
+        denoms = await new ChainGrpcTokenFactoryApi(network.endpoints.grpc).fetchDenomsFromCreator(creator);
+    } catch (error: any) {
+        throw new ToolError('TOKENS_UNAVAILABLE', `Failed to fetch the tokens created by ${creator} from ${network.name}: ${error.message}`);
+    }
+
+    const tokens: FactoryToken[] = [];
+    for (const denom of denoms) {
+        const { name, symbol, decimals } = await getTokenMetadata(denom, network);
+        const supply = await chainGrpcBankApi.fetchSupplyOf(denom);
+        tokens.push({
+            denom,
+            subdenom: parseFactoryDenom(denom).subdenom,
+            name,
+            symbol,
+            decimals,
+            supply: fromBaseUnits(supply?.amount || '0', decimals),
+            admin: await fetchDenomAdmin(network, denom)
+        });
+    }
+    return tokens;
+}
+
+/**
+ * Mints `amount` of a factory token into the admin's wallet
+ */
+export async function mintToken(network: NetworkContext, privateKey: PrivateKey, denomOrSymbol: string, amount: string) {
+    const { MsgMint } = await import('@injectivelabs/sdk-ts');
+    const denom = await resolveAdministeredDenom(network, privateKey, denomOrSymbol);
+    const { symbol, decimals } = await getTokenMetadata(denom, network);
+
+    const msg = MsgMint.fromJSON({
+        sender: privateKey.toBech32(),
+        amount: { denom, amount: toBaseUnits(amount, decimals) }
+    });
+    const tx = await broadcastMsgs(network, privateKey, [msg], `mint of ${amount} ${symbol}`);
+    return { tx, denom, symbol };
+}
+
+/**
+ * Burns `amount` of a factory token from the admin's own balance
+ */
+export async function burnToken(network: NetworkContext, privateKey: PrivateKey, denomOrSymbol: string, amount: string) {
+    const { MsgBurn } = await import('@injectivelabs/sdk-ts');
+    const denom = await resolveAdministeredDenom(network, privateKey, denomOrSymbol);
+    const { symbol, decimals } = await getTokenMetadata(denom, network);
+    const coin = { denom, amount: toBaseUnits(amount, decimals) };
+
+    const msg = MsgBurn.fromJSON({ sender: privateKey.toBech32(), amount: coin });
+    const tx = await broadcastMsgs(network, privateKey, [msg], `burn of ${amount} ${symbol}`, { spend: [coin] });
+    return { tx, denom, symbol };
+}
+
+/**
+ * Changes selected fields of a factory token's bank metadata, keeping the rest and its denom units.
+ * A new symbol also renames the display unit.
+ */
+export async function updateTokenMetadata(network: NetworkContext, privateKey: PrivateKey, denomOrSymbol: string, update: TokenMetadataUpdate) {
+    const { ChainGrpcBankApi, MsgSetDenomMetadata } = await import('@injectivelabs/sdk-ts');
+    const denom = await resolveAdministeredDenom(network, privateKey, denomOrSymbol);
+    const current = await getTokenMetadata(denom, network);
+
+    let existing;
+    try {
+        existing = await new ChainGrpcBankApi(network.endpoints.grpc).fetchDenomMetadata(denom);
+    } catch {
+        // Tokens created without metadata get the same layout deploy-token uses
+        existing = null;
+    }
+
+    const symbol = update.symbol ?? (existing?.symbol || current.symbol);
+    const display = existing?.display || current.symbol;
+    const denomUnits = existing?.denomUnits?.length
+        ? existing.denomUnits.map((unit) => unit.denom === display && display !== denom ? { ...unit, denom: symbol } : unit)
+        : [
+            { denom, exponent: 0, aliases: [] },
+            { denom: symbol, exponent: current.decimals, aliases: [] }
+        ];
+
+    const metadata = {
+        description: update.description ?? existing?.description ?? '',
+        base: denom,
+        display: display === denom ? denom : symbol,
+        name: update.name ?? (existing?.name || current.name),
+        symbol,
+        uri: update.uri ?? existing?.uri ?? '',
+        uriHash: update.uriHash ?? existing?.uriHash ?? '',
+        denomUnits,
+        decimals: current.decimals
+    };
+
+    const msg = MsgSetDenomMetadata.fromJSON({ sender: privateKey.toBech32(), metadata });
+    const tx = await broadcastMsgs(network, privateKey, [msg], `metadata update of ${denom}`);
+
+    // Later tools read symbols and names from the cache
+    await cacheTokenMetadata(network, { denom, symbol, name: metadata.name, decimals: current.decimals, source: 'bank' });
+    return { tx, denom, metadata };
+}
+
+/**
+ * Hands the admin rights of a factory token to another account. The current admin loses them immediately.
+ */
+export async function changeTokenAdmin(network: NetworkContext, privateKey: PrivateKey, denomOrSymbol: string, newAdmin: string) {
+    const { MsgChangeAdmin } = await import('@injectivelabs/sdk-ts');
+    if (!await isAccountAddress(newAdmin)) {
+        throw new ToolError('INVALID_ADDRESS', `${newAdmin} is not a valid inj1... address`);
+    }
+    const denom = await resolveAdministeredDenom(network, privateKey, denomOrSymbol);
+
+    const msg = MsgChangeAdmin.fromJSON({ sender: privateKey.toBech32(), denom, newAdmin });
+    // Mint authority is value, so the new admin is checked like any other recipient
+    const tx = await broadcastMsgs(network, privateKey, [msg], `admin change of ${denom}`, { recipients: [newAdmin] });
+    return { tx, denom };
+}
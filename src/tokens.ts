@@ -0,0 +1,254 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import { configDir, loadConfig } from './config.js';
+import { ToolError } from './errors.js';
+import type { NetworkContext } from './network.js';
+
+const tokenCacheFilePath = path.join(configDir, 'token-cache.json');
+
+export interface TokenMetadata {
+    denom: string;
+    symbol: string;
+    name: string;
+    decimals: number;
+    source: 'override' | 'builtin' | 'bank' | 'indexer' | 'cw20';
+}
+
+// Cached metadata per network name, then per denom
+type TokenCache = Record<string, Record<string, TokenMetadata>>;
+
+let tokenCache: TokenCache | null = null;
+
+// Token lists collected from indexer markets, fetched at most once per network per session
+const indexerTokenLists = new Map<string, Map<string, TokenMetadata>>();
+
+const BUILTIN_TOKENS: Record<string, Omit<TokenMetadata, 'source'>> = {
+    inj: { denom: 'inj', symbol: 'INJ', name: 'Injective', decimals: 18 }
+};
+
+async function loadTokenCache(): Promise<TokenCache> {
+    if (tokenCache) {
+        return tokenCache;
+    }
+
+    try {
+        tokenCache = JSON.parse(await fs.readFile(tokenCacheFilePath, 'utf8')) as TokenCache;
+    } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+            console.error(`Ignoring unreadable token cache ${tokenCacheFilePath}: ${error.message}`);
+        }
+        tokenCache = {};
+    }
+    return tokenCache;
+}
+
+/**
+ * Stores metadata in the on-disk cache, e.g. right after deploying a token
+ */
+export async function cacheTokenMetadata(network: NetworkContext, metadata: TokenMetadata) {
+    const cache = await loadTokenCache();
+    cache[network.name] = { ...cache[network.name], [metadata.denom]: metadata };
+
+    await fs.mkdir(path.dirname(tokenCacheFilePath), { recursive: true });
+    await fs.writeFile(tokenCacheFilePath, JSON.stringify(cache, null, 2), 'utf8');
+}
+
+/**
+ * Reads decimals from bank DenomMetadata: Injective's `decimals` field when set, else the exponent of the display
+ * unit, else the largest exponent. Metadata that only registers the base unit says nothing about decimals, so it
+ * yields null rather than 0.
+ */
+export function decimalsFromBankMetadata(metadata: { decimals?: number; display?: string; denomUnits?: { denom: string; exponent: number }[] }): number | null {
+    if (metadata.decimals) {
+        return metadata.decimals;
+    }
+
+    const units = metadata.denomUnits ?? [];
+    if (units.every((unit) => unit.exponent === 0)) {
+        return null;
+    }
+    const displayUnit = units.find((unit) => unit.denom === metadata.display);
+    return displayUnit && displayUnit.exponent > 0
+        ? displayUnit.exponent
+        : Math.max(...units.map((unit) => unit.exponent));
+}
+
+async function fetchBankMetadata(denom: string, network: NetworkContext): Promise<TokenMetadata | null> {
+    const { ChainGrpcBankApi } = await import('@injectivelabs/sdk-ts');
+    const chainGrpcBankApi = new ChainGrpcBankApi(network.endpoints.grpc);
+
+    let metadata;
+    try {
+        metadata = await chainGrpcBankApi.fetchDenomMetadata(denom);
+    } catch {
+        // Denoms without metadata are reported as not found
+        return null;
+    }
+    const decimals = metadata ? decimalsFromBankMetadata(metadata) : null;
+    if (!metadata || decimals === null) {
+        return null;
+    }
+
+    return {
+        denom,
+        symbol: metadata.symbol || metadata.display || denom,
+        name: metadata.name || metadata.symbol || denom,
+        decimals,
+        source: 'bank'
+    };
+}
+
+/**
+ * Builds a denom -> metadata list from the token info attached to indexer spot and derivative markets
+ */
+async function fetchIndexerTokenList(network: NetworkContext): Promise<Map<string, TokenMetadata>> {
+    const cached = indexerTokenLists.get(network.name);
+    if (cached) {
+        return cached;
+    }
+
+    const { IndexerGrpcSpotApi, IndexerGrpcDerivativesApi } = await import('@injectivelabs/sdk-ts');
+    const tokens = new Map<string, TokenMetadata>();
+
+    const addToken = (denom: string, token: any) => {
+        if (!denom || !token || tokens.has(denom) || typeof token.decimals !== 'number') {
+            return;
+        }
+        tokens.set(denom, {
+            denom,
+            symbol: token.symbol || denom,
+            name: token.name || token.symbol || denom,
+            decimals: token.decimals,
+            source: 'indexer'
+        });
+    };
+
+    try {
+        const spotMarkets = await new IndexerGrpcSpotApi(network.endpoints.indexer).fetchMarkets();
+        for (const market of spotMarkets) {
+            addToken(market.baseDenom, market.baseToken);
+            addToken(market.quoteDenom, market.quoteToken);
+        }
+
+        const derivativeMarkets = await new IndexerGrpcDerivativesApi(network.endpoints.indexer).fetchMarkets();
+        for (const market of derivativeMarkets) {
+            addToken(market.quoteDenom, market.quoteToken);
+        }
+    } catch (error: any) {
+        // A partial list is still useful, but don't remember it so the next lookup retries
+        console.error("Error fetching indexer token list:", error.message);
+        return tokens;
+    }
+
+    indexerTokenLists.set(network.name, tokens);
+    return tokens;
+}
+
+/**
+ * Resolves symbol, name and decimals for a denom.
+ * Order: user overrides from the config file, built-ins, the on-disk cache, bank DenomMetadata, the indexer token list.
+ */
+export async function getTokenMetadata(denom: string, network: NetworkContext): Promise<TokenMetadata> {
+    const config = await loadConfig();
+    const override = config.tokens?.[denom];
+    if (override) {
+        return {
+            denom,
+            symbol: override.symbol || denom,
+            name: override.name || override.symbol || denom,
+            decimals: override.decimals,
+            source: 'override'
+        };
+    }
+
+    if (BUILTIN_TOKENS[denom]) {
+        return { ...BUILTIN_TOKENS[denom], source: 'builtin' };
+    }
+
+    const cache = await loadTokenCache();
+    const cached = cache[network.name]?.[denom];
+    if (cached) {
+        return cached;
+    }
+
+    const metadata = await fetchBankMetadata(denom, network)
+        ?? (await fetchIndexerTokenList(network)).get(denom)
+        ?? null;
+
+    if (!metadata) {
+        throw new ToolError('TOKEN_UNKNOWN', `Unknown token metadata for ${denom} on ${network.name}. ` +
+            `Add its decimals under "tokens" in the config file to use it.`);
+    }
+
+    await cacheTokenMetadata(network, metadata);
+    return metadata;
+}
+
+/**
+ * Finds the denoms whose symbol matches (case-insensitively) on the given network.
+ * Candidates come from config overrides, the on-disk cache and the indexer token list.
+ */
+export async function findDenomsBySymbol(symbol: string, network: NetworkContext): Promise<TokenMetadata[]> {
+    const config = await loadConfig();
+    const cache = await loadTokenCache();
+    const wanted = symbol.toUpperCase();
+    const matches = new Map<string, TokenMetadata>();
+
+    for (const [denom, override] of Object.entries(config.tokens || {})) {
+        if (override.symbol?.toUpperCase() === wanted) {
+            matches.set(denom, await getTokenMetadata(denom, network));
+        }
+    }
+    for (const metadata of Object.values(cache[network.name] || {})) {
+        if (metadata.symbol.toUpperCase() === wanted && !matches.has(metadata.denom)) {
+            matches.set(metadata.denom, metadata);
+        }
+    }
+    for (const metadata of (await fetchIndexerTokenList(network)).values()) {
+        if (metadata.symbol.toUpperCase() === wanted && !matches.has(metadata.denom)) {
+            matches.set(metadata.denom, metadata);
+        }
+    }
+
+    return [...matches.values()];
+}
+
+/**
+ * Maps a human symbol (USDT, WETH, ATOM...) to its denom, failing when several denoms share the symbol.
+ * Returns null when no token with that symbol is known.
+ */
+export async function resolveSymbol(symbol: string, network: NetworkContext): Promise<string | null> {
+    const matches = await findDenomsBySymbol(symbol, network);
+    if (matches.length === 0) {
+        return null;
+    }
+    if (matches.length > 1) {
+        const candidates = matches.map((m) => `${m.denom} (${m.name}, ${m.decimals} decimals)`).join('; ');
+        throw new Error(`Symbol ${symbol} is ambiguous on ${network.name}. Use one of these denoms instead: ${candidates}`);
+    }
+    return matches[0].denom;
+}
+
+/**
+ * Normalizes a token denom, resolving human symbols like USDT or WETH to their denom on the network
+ */
+export async function normalizeDenom(denom: string, network: NetworkContext): Promise<string> {
+    // For factory tokens, we might need to handle the format 'factory/{creator address}/{subdenom}'
+    if (denom.startsWith('factory/') || denom.startsWith('ibc/')) {
+        return denom;
+    }
+    
+    // For common tokens like INJ, we can handle special cases
+    if (denom.toUpperCase() === 'INJ') {
+        return 'inj';
+    }
+    
+    // Other full denoms (peggy0x..., share tokens, ...) are used as is
+    if (denom.startsWith('peggy0x') || denom.includes('/')) {
+        return denom;
+    }
+    
+    // Anything else may be a symbol; unknown symbols fall through unchanged
+    const resolved = await resolveSymbol(denom, network);
+    return resolved ?? denom;
+}
@@ -0,0 +1,181 @@
+import { fromBaseUnits } from './amounts.js';
+import { ToolError } from './errors.js';
+import type { NetworkContext } from './network.js';
+import { getTokenMetadata } from './tokens.js';
+
+export interface TransactionFee {
+    denom: string;
+    symbol: string;
+    amount: string; // Human units
+}
+
+export interface TransactionEvent {
+    type: string;
+    attributes: Record<string, string>;
+}
+
+export interface TransactionDetails {
+    hash: string;
+    status: 'success' | 'failed';
+    code: number;
+    codespace: string;
+    height: number;
+    timestamp: string;
+    gasWanted: number;
+    gasUsed: number;
+    fees: TransactionFee[];
+    memo: string;
+    messages: { type: string; value: any }[]; // Empty when the transaction is not indexed yet
+    events: TransactionEvent[];
+    failureLog: string | null;
+}
+
+export interface TransactionHistoryEntry {
+    hash: string;
+    status: 'success' | 'failed';
+    height: number;
+    timestamp: string;
+    messageTypes: string[];
+    fees: TransactionFee[];
+    failureLog: string | null;
+}
+
+export interface TransactionHistoryPage {
+    address: string;
+    transactions: TransactionHistoryEntry[];
+    skip: number;
+    total: number;
+}
+
+async function createExplorerApi(network: NetworkContext) {
+    const { IndexerRestExplorerApi } = await import('@injectivelabs/sdk-ts');
+    // The client appends the explorer API path itself
+    return new IndexerRestExplorerApi(network.endpoints.explorer ?? network.endpoints.indexer);
+}
+
+/**
+ * Converts fee coins in base units to human units with their symbols
+ */
+export async function toTransactionFees(network: NetworkContext, amounts: { amount: string; denom: string }[] | undefined): Promise<TransactionFee[]> {
+    const fees: TransactionFee[] = [];
+    for (const coin of amounts ?? []) {
+        const { symbol, decimals } = await getTokenMetadata(coin.denom, network);
+        fees.push({ denom: coin.denom, symbol, amount: fromBaseUnits(coin.amount, decimals) });
+    }
+    return fees;
+}
+
+function decodeAttribute(value: unknown): string {
+    return value instanceof Uint8Array ? Buffer.from(value).toString('utf8') : String(value ?? '');
+}
+
+/**
+ * Normalizes events from the explorer (attribute maps) and from the chain (key/value lists) to attribute maps
+ */
+export function normalizeEvents(events: any[] | undefined): TransactionEvent[] {
+    return (events ?? []).map((event) => ({
+        type: event.type,
+        attributes: Array.isArray(event.attributes)
+            ? Object.fromEntries(event.attributes.map((a: any) => [decodeAttribute(a.key), decodeAttribute(a.value)]))
+            : { ...event.attributes }
+    }));
+}
+
+/**
+ * Reads a transaction from the chain when the explorer does not have it yet. Messages are not decoded there.
+ */
+async function fetchChainTransaction(network: NetworkContext, hash: string): Promise<TransactionDetails> {
+    const { TxGrpcApi } = await import('@injectivelabs/sdk-ts');
+
+    let tx;
+    try {
+        tx = await new TxGrpcApi(network.endpoints.grpc).fetchTx(hash);
+    } catch (error: any) {
+        throw new ToolError('TX_NOT_FOUND',
+            `Transaction ${hash} not found on ${network.name}. It may still be pending or the hash may be wrong: ${error.message}`);
+    }
+
+    return {
+        hash: tx.txHash,
+        status: tx.code === 0 ? 'success' : 'failed',
+        code: tx.code,
+        codespace: tx.codespace,
+        height: tx.height,
+        timestamp: tx.timestamp,
+        gasWanted: tx.gasWanted,
+        gasUsed: tx.gasUsed,
+        fees: [],
+        memo: '',
+        messages: [],
+        events: normalizeEvents(tx.events),
+        failureLog: tx.code === 0 ? null : tx.rawLog
+    };
+}
+
+/**
+ * Looks up a transaction by hash: status, gas, fees, decoded messages, events and the failure log if it failed.
+ * Falls back to the chain for transactions the explorer has not indexed yet.
+ */
+export async function getTransaction(network: NetworkContext, hash: string): Promise<TransactionDetails> {
+    // Broadcasts report bare uppercase hex while the explorer keys transactions by 0x-prefixed lowercase hex
+    const hex = hash.replace(/^0x/i, '');
+    const explorerApi = await createExplorerApi(network);
+
+    let tx;
+    try {
+        tx = await explorerApi.fetchTransaction(`0x${hex.toLowerCase()}`);
+    } catch (error: any) {
+        console.error(`Transaction ${hash} not in the explorer, trying the chain: ${error.message}`);
+        return fetchChainTransaction(network, hex.toUpperCase());
+    }
+
+    return {
+        hash: tx.hash,
+        status: tx.code === 0 ? 'success' : 'failed',
+        code: tx.code,
+        codespace: tx.codespace,
+        height: tx.blockNumber,
+        timestamp: tx.blockTimestamp,
+        gasWanted: tx.gasWanted,
+        gasUsed: tx.gasUsed,
+        fees: await toTransactionFees(network, tx.gasFee?.amounts),
+        memo: tx.memo,
+        messages: tx.messages.map((message) => ({ type: message.type, value: message.message })),
+        events: normalizeEvents(tx.events),
+        failureLog: tx.code === 0 ? null : (tx.errorLog || tx.info || null)
+    };
+}
+
+/**
+ * Lists an address's transactions from the indexer explorer, newest first, `limit` at a time after skipping `skip`
+ */
+export async function getTransactionHistory(network: NetworkContext, address: string, limit: number, skip: number = 0): Promise<TransactionHistoryPage> {
+    const explorerApi = await createExplorerApi(network);
+
+    let response;
+    try {
+        response = await explorerApi.fetchAccountTransactions({ account: address, params: { limit, skip } });
+    } catch (error: any) {
+        throw new ToolError('HISTORY_UNAVAILABLE', `Failed to fetch the transaction history of ${address} from ${network.name}: ${error.message}`);
+    }
+
+    const transactions: TransactionHistoryEntry[] = [];
+    for (const tx of response.transactions) {
+        transactions.push({
+            hash: tx.hash,
+            status: tx.code === 0 ? 'success' : 'failed',
+            height: tx.blockNumber,
+            timestamp: tx.blockTimestamp,
+            messageTypes: tx.messages.map((message) => message.type),
+            fees: await toTransactionFees(network, tx.gasFee?.amounts),
+            failureLog: tx.code === 0 ? null : (tx.errorLog || tx.info || null)
+        });
+    }
+
+    return {
+        address,
+        transactions,
+        skip,
+        total: response.paging?.total ?? transactions.length
+    };
+}
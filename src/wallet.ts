@@ -0,0 +1,577 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { configDir, loadConfig } from './config.js';
+
+const scrypt = promisify(crypto.scrypt) as (
+    password: crypto.BinaryLike,
+    salt: crypto.BinaryLike,
+    keylen: number,
+    options: crypto.ScryptOptions
+) => Promise<Buffer>;
+const pbkdf2 = promisify(crypto.pbkdf2);
+
+// Legacy plaintext wallet location, migrated into the keystore on first use
+const legacyWalletFilePath = path.join(os.homedir(), 'Documents', 'injective_wallet.json');
+
+// Where the migration keeps a copy of the plaintext wallet when INJECTIVE_KEEP_PLAINTEXT_BACKUP is set
+const plaintextBackupFilePath = path.join(configDir, 'plaintext-wallet-backup.json');
+
+// scrypt parameters for newly written keystores (N=2^17, r=8, p=1)
+const SCRYPT_PARAMS = { n: 131072, r: 8, p: 1, dklen: 32 };
+
+export const DEFAULT_WALLET_NAME = 'default';
+
+// Wallets created or imported from a mnemonic can derive further accounts, raw key imports cannot
+export type WalletKind = 'mnemonic' | 'privateKey';
+
+export interface WalletAccount {
+    index: number;
+    address: string;
+}
+
+export interface WalletSummary {
+    name: string;
+    kind: WalletKind;
+    createdAt: string;
+    accounts: WalletAccount[];
+}
+
+export interface ActiveAccount extends WalletAccount {
+    wallet: string;
+}
+
+/**
+ * Keystore-v3 style crypto section: the mnemonic or private key is AES-GCM encrypted with a passphrase-derived key
+ */
+interface EncryptedSecret {
+    cipher: 'aes-256-gcm';
+    ciphertext: string;
+    cipherparams: { iv: string; tag: string };
+    kdf: 'scrypt' | 'pbkdf2';
+    kdfparams: {
+        salt: string;
+        dklen: number;
+        n?: number;
+        r?: number;
+        p?: number;
+        c?: number;
+        prf?: string;
+    };
+}
+
+/**
+ * One named wallet. Only addresses are kept in the clear; `address` is the account 0 address.
+ */
+interface StoredWallet {
+    version: 3;
+    id: string;
+    kind?: WalletKind; // Missing on wallets written before imports existed, which are all mnemonics
+    address: string;
+    createdAt: string;
+    crypto: EncryptedSecret;
+    accounts: WalletAccount[];
+}
+
+interface WalletRegistry {
+    active: { wallet: string; account: number } | null;
+    wallets: Record<string, StoredWallet>;
+}
+
+/**
+ * Supplies a passphrase when none is set in the environment, e.g. through MCP elicitation
+ */
+export type PassphraseProvider = (message: string) => Promise<string | undefined>;
+
+let passphraseProvider: PassphraseProvider | null = null;
+
+// Decrypted secrets kept in memory once unlocked, so each tool call doesn't prompt again
+const unlockedSecrets = new Map<string, string>();
+
+export function setPassphraseProvider(provider: PassphraseProvider) {
+    passphraseProvider = provider;
+}
+
+/**
+ * Returns the keystore location from INJECTIVE_KEYSTORE_PATH, the config file, or the default
+ */
+export async function getKeystorePath(): Promise<string> {
+    const config = await loadConfig();
+    return process.env.INJECTIVE_KEYSTORE_PATH || config.keystorePath || path.join(configDir, 'keystore.json');
+}
+
+/**
+ * BIP-44 derivation path for an Injective account index (coin type 60, as Injective uses Ethereum keys)
+ */
+export function derivationPath(index: number): string {
+    return `m/44'/60'/0'/0/${index}`;
+}
+
+async function getPassphrase(message: string): Promise<string> {
+    const fromEnv = process.env.INJECTIVE_KEYSTORE_PASSPHRASE;
+    if (fromEnv) {
+        return fromEnv;
+    }
+
+    const provided = passphraseProvider ? await passphraseProvider(message) : undefined;
+    if (!provided) {
+        throw new Error("Keystore passphrase required. Set INJECTIVE_KEYSTORE_PASSPHRASE or use a client that supports elicitation.");
+    }
+    return provided;
+}
+
+/**
+ * Asks for a new passphrase twice, since a typo would lock the wallet for good.
+ * A passphrase from the environment is used as is.
+ */
+async function getNewPassphrase(message: string): Promise<string> {
+    if (process.env.INJECTIVE_KEYSTORE_PASSPHRASE) {
+        return process.env.INJECTIVE_KEYSTORE_PASSPHRASE;
+    }
+
+    const passphrase = await getPassphrase(message);
+    const repeated = await getPassphrase("Enter the same passphrase again to confirm it.");
+    if (repeated !== passphrase) {
+        throw new Error("The passphrases do not match. Nothing was changed.");
+    }
+    return passphrase;
+}
+
+async function deriveKey(passphrase: string, kdf: EncryptedSecret['kdf'], params: EncryptedSecret['kdfparams']): Promise<Buffer> {
+    const salt = Buffer.from(params.salt, 'hex');
+    if (kdf === 'scrypt') {
+        const n = params.n ?? SCRYPT_PARAMS.n;
+        const r = params.r ?? SCRYPT_PARAMS.r;
+        return scrypt(passphrase, salt, params.dklen, {
+            N: n,
+            r,
+            p: params.p ?? SCRYPT_PARAMS.p,
+            maxmem: 256 * n * r // scrypt needs 128 * N * r bytes, leave headroom
+        });
+    }
+    if (kdf === 'pbkdf2') {
+        return pbkdf2(passphrase, salt, params.c ?? 262144, params.dklen, 'sha256');
+    }
+    throw new Error(`Unsupported keystore KDF: ${kdf}`);
+}
+
+async function encryptSecret(secret: string, address: string, passphrase: string): Promise<EncryptedSecret> {
+    const salt = crypto.randomBytes(32);
+    const iv = crypto.randomBytes(12);
+    const kdfparams = { ...SCRYPT_PARAMS, salt: salt.toString('hex') };
+    const key = await deriveKey(passphrase, 'scrypt', kdfparams);
+
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    // Bind the clear-text address to the ciphertext so it can't be swapped out
+    cipher.setAAD(Buffer.from(address, 'utf8'));
+    const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+    return {
+        cipher: 'aes-256-gcm',
+        ciphertext: ciphertext.toString('hex'),
+        cipherparams: { iv: iv.toString('hex'), tag: cipher.getAuthTag().toString('hex') },
+        kdf: 'scrypt',
+        kdfparams
+    };
+}
+
+async function decryptSecret(encrypted: EncryptedSecret, address: string, passphrase: string): Promise<string> {
+    const key = await deriveKey(passphrase, encrypted.kdf, encrypted.kdfparams);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(encrypted.cipherparams.iv, 'hex'));
+    decipher.setAAD(Buffer.from(address, 'utf8'));
+    decipher.setAuthTag(Buffer.from(encrypted.cipherparams.tag, 'hex'));
+
+    try {
+        return Buffer.concat([
+            decipher.update(Buffer.from(encrypted.ciphertext, 'hex')),
+            decipher.final()
+        ]).toString('utf8');
+    } catch {
+        throw new Error("Failed to unlock keystore: incorrect passphrase or corrupted file");
+    }
+}
+
+async function createStoredWallet(
+    address: string,
+    secret: string,
+    createdAt: string,
+    passphrase: string,
+    kind: WalletKind = 'mnemonic'
+): Promise<StoredWallet> {
+    return {
+        version: 3,
+        id: crypto.randomUUID(),
+        kind,
+        address,
+        createdAt,
+        crypto: await encryptSecret(secret, address, passphrase),
+        accounts: [{ index: 0, address }]
+    };
+}
+
+async function readJson(filePath: string): Promise<any | null> {
+    try {
+        return JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (error: any) {
+        if (error.code === 'ENOENT') {
+            return null;
+        }
+        throw error;
+    }
+}
+
+// Serializes keystore reads and writes within the server, so concurrent updates cannot overwrite each other
+let registryLock: Promise<unknown> = Promise.resolve();
+
+function withRegistryLock<T>(task: () => Promise<T>): Promise<T> {
+    const run = registryLock.then(task, task);
+    registryLock = run.catch(() => undefined);
+    return run;
+}
+
+/**
+ * Writes the registry to a temporary file and renames it over the keystore, so a crash cannot leave it truncated
+ */
+async function saveRegistry(registry: WalletRegistry) {
+    const keystorePath = await getKeystorePath();
+    await fs.mkdir(path.dirname(keystorePath), { recursive: true, mode: 0o700 });
+
+    const tempPath = `${keystorePath}.${crypto.randomUUID()}.tmp`;
+    try {
+        await fs.writeFile(tempPath, JSON.stringify(registry, null, 2), { encoding: 'utf8', mode: 0o600 });
+        await fs.rename(tempPath, keystorePath);
+    } catch (error) {
+        await fs.rm(tempPath, { force: true });
+        throw error;
+    }
+}
+
+/**
+ * Overwrites a file with random bytes before deleting it, so the plaintext does not linger in its blocks
+ */
+async function shredFile(filePath: string) {
+    const handle = await fs.open(filePath, 'r+');
+    try {
+        const { size } = await handle.stat();
+        await handle.write(crypto.randomBytes(size), 0, size, 0);
+        await handle.sync();
+    } finally {
+        await handle.close();
+    }
+    await fs.unlink(filePath);
+}
+
+/**
+ * Reads the wallet registry, migrating older formats on the way:
+ * a plaintext wallet (legacy location or the keystore path itself) is encrypted,
+ * and a single-wallet keystore is wrapped as the default wallet.
+ * Callers hold the registry lock.
+ */
+async function readRegistry(): Promise<WalletRegistry> {
+    const keystorePath = await getKeystorePath();
+    const existing = await readJson(keystorePath);
+
+    if (existing && existing.wallets) {
+        return existing as WalletRegistry;
+    }
+
+    if (existing && existing.crypto) {
+        const wallet: StoredWallet = { ...existing, accounts: [{ index: 0, address: existing.address }] };
+        const registry: WalletRegistry = {
+            active: { wallet: DEFAULT_WALLET_NAME, account: 0 },
+            wallets: { [DEFAULT_WALLET_NAME]: wallet }
+        };
+        await saveRegistry(registry);
+        return registry;
+    }
+
+    const sourcePath = existing ? keystorePath : legacyWalletFilePath;
+    const plaintext = existing ?? await readJson(legacyWalletFilePath);
+
+    if (!plaintext || typeof plaintext.mnemonic !== 'string') {
+        return { active: null, wallets: {} };
+    }
+
+    // A mnemonic that does not match its address would be encrypted under the wrong address and never unlock
+    const { secret: mnemonic, privateKey } = await parseWalletSecret(plaintext.mnemonic, 'mnemonic');
+    if (privateKey.toBech32() !== plaintext.address) {
+        throw new Error(`The plaintext wallet ${sourcePath} is inconsistent: its mnemonic derives ${privateKey.toBech32()}, not ${plaintext.address}. It was left in place.`);
+    }
+
+    console.error(`Migrating plaintext wallet ${sourcePath} to encrypted keystore ${keystorePath}`);
+    const passphrase = await getNewPassphrase("Your Injective wallet is stored unencrypted. Choose a passphrase to encrypt it.");
+    const wallet = await createStoredWallet(
+        plaintext.address,
+        mnemonic,
+        plaintext.createdAt || new Date().toISOString(),
+        passphrase
+    );
+    if (await decryptSecret(wallet.crypto, wallet.address, passphrase) !== mnemonic) {
+        throw new Error(`Encrypting the plaintext wallet ${sourcePath} could not be verified. It was left in place.`);
+    }
+    const registry: WalletRegistry = {
+        active: { wallet: DEFAULT_WALLET_NAME, account: 0 },
+        wallets: { [DEFAULT_WALLET_NAME]: wallet }
+    };
+
+    if (process.env.INJECTIVE_KEEP_PLAINTEXT_BACKUP) {
+        await fs.mkdir(configDir, { recursive: true, mode: 0o700 });
+        await fs.writeFile(plaintextBackupFilePath, JSON.stringify(plaintext, null, 2), { encoding: 'utf8', mode: 0o600 });
+        await fs.chmod(plaintextBackupFilePath, 0o600);
+        console.error(`WARNING: an unencrypted copy of the wallet was kept at ${plaintextBackupFilePath}. Anyone who can read it can drain the wallet; delete it once the keystore unlocks.`);
+    }
+
+    // A plaintext wallet at the keystore path is replaced by the keystore, so it is shredded through a second link to it
+    const plaintextPath = sourcePath === keystorePath ? `${keystorePath}.plaintext` : sourcePath;
+    if (plaintextPath !== sourcePath) {
+        await fs.rm(plaintextPath, { force: true });
+        await fs.link(sourcePath, plaintextPath);
+    }
+    await saveRegistry(registry);
+    await shredFile(plaintextPath);
+    console.error(`The plaintext wallet ${sourcePath} was overwritten and deleted.`);
+
+    unlockedSecrets.set(DEFAULT_WALLET_NAME, mnemonic);
+    return registry;
+}
+
+function loadRegistry(): Promise<WalletRegistry> {
+    return withRegistryLock(readRegistry);
+}
+
+/**
+ * Reads the registry, applies a change and saves it, with no other read or write in between
+ */
+function updateRegistry<T>(update: (registry: WalletRegistry) => T | Promise<T>): Promise<T> {
+    return withRegistryLock(async () => {
+        const registry = await readRegistry();
+        const result = await update(registry);
+        await saveRegistry(registry);
+        return result;
+    });
+}
+
+function getStoredWallet(registry: WalletRegistry, name: string): StoredWallet {
+    const wallet = registry.wallets[name];
+    if (!wallet) {
+        throw new Error(`Wallet "${name}" not found. Use list-wallets to see available wallets.`);
+    }
+    return wallet;
+}
+
+async function unlockSecret(name: string, wallet: StoredWallet): Promise<string> {
+    const cached = unlockedSecrets.get(name);
+    if (cached) {
+        return cached;
+    }
+
+    const passphrase = await getPassphrase(`Enter the passphrase to unlock your Injective wallet "${name}" (${wallet.address}).`);
+    const secret = await decryptSecret(wallet.crypto, wallet.address, passphrase);
+    unlockedSecrets.set(name, secret);
+    return secret;
+}
+
+/**
+ * Parses a mnemonic, raw private key hex or Ethereum private key (0x-prefixed hex) into a signing key.
+ * The kind is detected from the input unless given explicitly.
+ */
+export async function parseWalletSecret(input: string, kind?: WalletKind) {
+    const { PrivateKey } = await import('@injectivelabs/sdk-ts');
+    const trimmed = input.trim();
+    const detected: WalletKind = kind ?? (/^(0x)?[0-9a-fA-F]{64}$/.test(trimmed) ? 'privateKey' : 'mnemonic');
+
+    if (detected === 'privateKey') {
+        const hex = trimmed.replace(/^0x/, '').toLowerCase();
+        if (!/^[0-9a-f]{64}$/.test(hex)) {
+            throw new Error("Private key must be 32 bytes of hex, optionally 0x-prefixed");
+        }
+        return { kind: detected, secret: hex, privateKey: PrivateKey.fromHex(hex) };
+    }
+
+    const mnemonic = trimmed.split(/\s+/).join(' ').toLowerCase();
+    let privateKey;
+    try {
+        privateKey = PrivateKey.fromMnemonic(mnemonic);
+    } catch (error: any) {
+        throw new Error(`Invalid mnemonic: ${error.message}`);
+    }
+    return { kind: detected, secret: mnemonic, privateKey };
+}
+
+/**
+ * Resolves a `from` selector into a wallet account.
+ * Accepts a wallet name, "name:index", or an inj address of a derived account; defaults to the active account.
+ */
+function resolveAccount(registry: WalletRegistry, from?: string): ActiveAccount {
+    if (!from) {
+        if (!registry.active) {
+            throw new Error("Wallet not found. Please create a wallet first.");
+        }
+        from = `${registry.active.wallet}:${registry.active.account}`;
+    }
+
+    if (from.startsWith('inj1')) {
+        for (const [name, wallet] of Object.entries(registry.wallets)) {
+            const account = wallet.accounts.find((a) => a.address === from);
+            if (account) {
+                return { wallet: name, ...account };
+            }
+        }
+        throw new Error(`No wallet account with address ${from}. Use list-wallets to see available accounts.`);
+    }
+
+    const [name, indexPart] = from.split(':');
+    const index = indexPart === undefined ? 0 : parseInt(indexPart, 10);
+    const account = getStoredWallet(registry, name).accounts.find((a) => a.index === index);
+    if (!account) {
+        throw new Error(`Account ${index} of wallet "${name}" has not been derived. Use derive-account first.`);
+    }
+    return { wallet: name, ...account };
+}
+
+export async function checkWalletExists(name?: string) {
+    const registry = await loadRegistry();
+    return name ? name in registry.wallets : Object.keys(registry.wallets).length > 0;
+}
+
+/**
+ * Returns a wallet's account 0 address without unlocking the keystore
+ */
+export async function getWalletAddress(name: string = DEFAULT_WALLET_NAME): Promise<string> {
+    const registry = await loadRegistry();
+    return getStoredWallet(registry, name).address;
+}
+
+/**
+ * Returns the name of the stored wallet that owns an address, if any
+ */
+export async function findWalletByAddress(address: string): Promise<string | null> {
+    const registry = await loadRegistry();
+    const entry = Object.entries(registry.wallets).find(([, wallet]) => wallet.accounts.some((a) => a.address === address));
+    return entry ? entry[0] : null;
+}
+
+export async function saveWallet(address: string, secret: string, name: string = DEFAULT_WALLET_NAME, kind: WalletKind = 'mnemonic') {
+    const assertNameFree = (registry: WalletRegistry) => {
+        if (registry.wallets[name]) {
+            throw new Error(`A wallet named "${name}" already exists.`);
+        }
+    };
+    assertNameFree(await loadRegistry());
+
+    // Asked and encrypted before taking the lock, so other tools are not blocked while the user types
+    const passphrase = await getNewPassphrase(`Choose a passphrase to encrypt your new Injective wallet "${name}".`);
+    const wallet = await createStoredWallet(address, secret, new Date().toISOString(), passphrase, kind);
+
+    await updateRegistry((registry) => {
+        assertNameFree(registry);
+        registry.wallets[name] = wallet;
+        // The first wallet becomes the active one
+        if (!registry.active) {
+            registry.active = { wallet: name, account: 0 };
+        }
+    });
+    unlockedSecrets.set(name, secret);
+}
+
+/**
+ * Unlocks the selected (or active) account and returns its signing key
+ */
+export async function loadPrivateKey(from?: string) {
+    const { PrivateKey } = await import('@injectivelabs/sdk-ts');
+    const registry = await loadRegistry();
+    const account = resolveAccount(registry, from);
+    const wallet = getStoredWallet(registry, account.wallet);
+    const secret = await unlockSecret(account.wallet, wallet);
+
+    const privateKey = wallet.kind === 'privateKey'
+        ? PrivateKey.fromHex(secret)
+        : PrivateKey.fromMnemonic(secret, derivationPath(account.index));
+    if (privateKey.toBech32() !== account.address) {
+        throw new Error(`Derived key for wallet "${account.wallet}" account ${account.index} does not match the stored address`);
+    }
+    return privateKey;
+}
+
+/**
+ * Resolves the selected (or active) account without unlocking the keystore
+ */
+export async function getAccount(from?: string): Promise<ActiveAccount> {
+    const registry = await loadRegistry();
+    return resolveAccount(registry, from);
+}
+
+export async function getActiveAccount(): Promise<ActiveAccount | null> {
+    const registry = await loadRegistry();
+    return registry.active ? resolveAccount(registry) : null;
+}
+
+export async function listWallets(): Promise<WalletSummary[]> {
+    const registry = await loadRegistry();
+    return Object.entries(registry.wallets).map(([name, wallet]) => ({
+        name,
+        kind: wallet.kind ?? 'mnemonic',
+        createdAt: wallet.createdAt,
+        accounts: [...wallet.accounts].sort((a, b) => a.index - b.index)
+    }));
+}
+
+export async function selectWallet(name: string, accountIndex: number = 0): Promise<ActiveAccount> {
+    return updateRegistry((registry) => {
+        const account = resolveAccount(registry, `${name}:${accountIndex}`);
+        registry.active = { wallet: name, account: accountIndex };
+        return account;
+    });
+}
+
+/**
+ * Derives a further BIP-44 account from a wallet's mnemonic (the next unused index by default)
+ */
+export async function deriveAccount(name?: string, index?: number): Promise<ActiveAccount> {
+    const { PrivateKey } = await import('@injectivelabs/sdk-ts');
+    const registry = await loadRegistry();
+
+    const walletName = name || registry.active?.wallet;
+    if (!walletName) {
+        throw new Error("Wallet not found. Please create a wallet first.");
+    }
+    const wallet = getStoredWallet(registry, walletName);
+    if (wallet.kind === 'privateKey') {
+        throw new Error(`Wallet "${walletName}" was imported from a private key and cannot derive further accounts`);
+    }
+
+    const accountIndex = index ?? Math.max(...wallet.accounts.map((a) => a.index)) + 1;
+    const existing = wallet.accounts.find((a) => a.index === accountIndex);
+    if (existing) {
+        return { wallet: walletName, ...existing };
+    }
+
+    const mnemonic = await unlockSecret(walletName, wallet);
+    const address = PrivateKey.fromMnemonic(mnemonic, derivationPath(accountIndex)).toBech32();
+    await updateRegistry((latest) => {
+        const accounts = getStoredWallet(latest, walletName).accounts;
+        if (!accounts.some((a) => a.index === accountIndex)) {
+            accounts.push({ index: accountIndex, address });
+        }
+    });
+
+    return { wallet: walletName, index: accountIndex, address };
+}
+
+export async function removeWallet(name: string) {
+    return updateRegistry((registry) => {
+        getStoredWallet(registry, name);
+
+        delete registry.wallets[name];
+        unlockedSecrets.delete(name);
+
+        // Fall back to another wallet if the active one was removed
+        if (registry.active?.wallet === name) {
+            const [next] = Object.keys(registry.wallets);
+            registry.active = next ? { wallet: next, account: 0 } : null;
+        }
+        return registry.active;
+    });
+}
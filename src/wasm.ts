@@ -0,0 +1,332 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import type { PrivateKey } from '@injectivelabs/sdk-ts';
+import { BigNumber } from '@injectivelabs/utils';
+import { fromBaseUnits, toBaseUnits } from './amounts.js';
+import { isAccountAddress } from './batch.js';
+import { broadcastMsgs } from './broadcast.js';
+import type { BroadcastResult, Coin, FeeOptions } from './broadcast.js';
+import { ToolError } from './errors.js';
+import type { NetworkContext } from './network.js';
+import { assertUnknownRecipientAllowed } from './policy.js';
+import { cacheTokenMetadata, getTokenMetadata, normalizeDenom } from './tokens.js';
+import type { TransactionEvent } from './transactions.js';
+
+// Contract gas depends entirely on the contract, so it is always sized from a simulation
+const WASM_FEE_OPTIONS: FeeOptions = { simulate: true };
+
+export interface ContractFunds {
+    denom: string; // Denom or symbol
+    amount: string; // Human units
+}
+
+export interface ContractCallResult {
+    tx: BroadcastResult;
+    wasmEvents: TransactionEvent[]; // Events emitted by the contract itself
+}
+
+export interface Cw20TokenInfo {
+    name: string;
+    symbol: string;
+    decimals: number;
+    totalSupply: string; // Human units
+}
+
+function findEventAttribute(tx: BroadcastResult, type: string, key: string): string | undefined {
+    return tx.events.find((event) => event.type === type && event.attributes[key] !== undefined)?.attributes[key];
+}
+
+// CW20 messages that hand tokens or rights to an address, and whether their amount leaves the signer's control
+const CW20_ACTIONS: Record<string, { recipient?: string; spends: boolean }> = {
+    transfer: { recipient: 'recipient', spends: true },
+    transfer_from: { recipient: 'recipient', spends: true },
+    send: { recipient: 'contract', spends: true },
+    send_from: { recipient: 'contract', spends: true },
+    burn: { spends: true },
+    burn_from: { spends: true },
+    increase_allowance: { recipient: 'spender', spends: true },
+    mint: { recipient: 'recipient', spends: false },
+    update_minter: { recipient: 'new_minter', spends: false }
+};
+
+/**
+ * Lists the addresses a CW20 message hands tokens or rights to and the base unit amount it moves, so generic
+ * contract calls cannot bypass the recipient lists or the spending limits
+ */
+export function findCw20Movements(msg: object): { recipients: string[]; amount: string } {
+    const recipients: string[] = [];
+    let amount = new BigNumber(0);
+
+    for (const [action, body] of Object.entries(msg)) {
+        const fields = CW20_ACTIONS[action];
+        if (!fields || !body || typeof body !== 'object') {
+            continue;
+        }
+        const values = body as Record<string, unknown>;
+        const recipient = fields.recipient ? values[fields.recipient] : undefined;
+        if (typeof recipient === 'string') {
+            recipients.push(recipient);
+        }
+        if (fields.spends && typeof values.amount === 'string' && /^\d+$/.test(values.amount)) {
+            amount = amount.plus(values.amount);
+        }
+    }
+    return { recipients, amount: amount.toFixed() };
+}
+
+/**
+ * Counts a CW20 amount as spending of the denom `cw20:<contract>`, whose metadata is cached from the contract's
+ * token_info so limits can be set by that denom or the token's symbol. Contracts that are not CW20 tokens spend nothing.
+ */
+async function toCw20Spend(network: NetworkContext, contractAddress: string, amount: string): Promise<Coin[]> {
+    if (new BigNumber(amount).isZero()) {
+        return [];
+    }
+
+    let token: Cw20TokenInfo;
+    try {
+        token = await getCw20TokenInfo(network, contractAddress);
+    } catch (error: any) {
+        if (error instanceof ToolError && (error.code === 'NOT_CW20' || error.code === 'QUERY_FAILED')) {
+            return [];
+        }
+        throw error;
+    }
+
+    const denom = `cw20:${contractAddress}`;
+    await cacheTokenMetadata(network, { denom, symbol: token.symbol || denom, name: token.name || token.symbol || denom, decimals: token.decimals, source: 'cw20' });
+    return [{ denom, amount }];
+}
+
+function wasmEvents(tx: BroadcastResult): TransactionEvent[] {
+    return tx.events.filter((event) => event.type === 'wasm' || event.type.startsWith('wasm-'));
+}
+
+/**
+ * Converts funds in human units to coins in base units, sorted by denom as the chain requires
+ */
+async function toFunds(network: NetworkContext, funds: ContractFunds[] = []): Promise<Coin[]> {
+    const coins: Coin[] = [];
+    for (const { denom: denomOrSymbol, amount } of funds) {
+        const denom = await normalizeDenom(denomOrSymbol, network);
+        const { decimals } = await getTokenMetadata(denom, network);
+        coins.push({ denom, amount: toBaseUnits(amount, decimals) });
+    }
+    return coins.sort((a, b) => a.denom.localeCompare(b.denom));
+}
+
+async function fetchContractInfo(network: NetworkContext, contractAddress: string) {
+    const { ChainGrpcWasmApi } = await import('@injectivelabs/sdk-ts');
+
+    let info;
+    try {
+        info = await new ChainGrpcWasmApi(network.endpoints.grpc).fetchContractInfo(contractAddress);
+    } catch (error: any) {
+        throw new ToolError('CONTRACT_NOT_FOUND', `No contract at ${contractAddress} on ${network.name}: ${error.message}`);
+    }
+    if (!info) {
+        throw new ToolError('CONTRACT_NOT_FOUND', `No contract at ${contractAddress} on ${network.name}`);
+    }
+    return info;
+}
+
+/**
+ * Uploads a compiled contract from a local .wasm file (optionally gzipped) and returns its code id
+ */
+export async function storeCode(network: NetworkContext, privateKey: PrivateKey, wasmPath: string) {
+    const { MsgStoreCode } = await import('@injectivelabs/sdk-ts');
+    const filePath = path.resolve(wasmPath.replace(/^~(?=$|\/)/, process.env.HOME || '~'));
+
+    let wasmBytes: Buffer;
+    try {
+        wasmBytes = await fs.readFile(filePath);
+    } catch (error: any) {
+        throw new ToolError('WASM_NOT_FOUND', `Cannot read ${filePath}: ${error.message}`);
+    }
+    const isWasm = wasmBytes.subarray(0, 4).equals(Buffer.from([0x00, 0x61, 0x73, 0x6d]));
+    const isGzip = wasmBytes.subarray(0, 2).equals(Buffer.from([0x1f, 0x8b]));
+    if (!isWasm && !isGzip) {
+        throw new ToolError('INVALID_WASM', `${filePath} is not a WebAssembly module or a gzipped one`);
+    }
+
+    const msg = MsgStoreCode.fromJSON({ sender: privateKey.toBech32(), wasmBytes: new Uint8Array(wasmBytes) });
+    const tx = await broadcastMsgs(network, privateKey, [msg], `upload of ${path.basename(filePath)}`, WASM_FEE_OPTIONS);
+
+    const codeId = findEventAttribute(tx, 'store_code', 'code_id');
+    if (!codeId) {
+        throw new ToolError('CODE_ID_MISSING', `Transaction ${tx.txHash} succeeded but did not report a code id`, { txHash: tx.txHash });
+    }
+    return { tx, codeId: Number(codeId), checksum: findEventAttribute(tx, 'store_code', 'code_checksum') ?? null, size: wasmBytes.length };
+}
+
+/**
+ * Instantiates stored code and returns the new contract's address. The admin, who can migrate the contract,
+ * defaults to the signer. Funds are limited to a single coin because the SDK's MsgInstantiateContract only takes one.
+ */
+export async function instantiateContract(
+    network: NetworkContext,
+    privateKey: PrivateKey,
+    codeId: number,
+    label: string,
+    msg: object,
+    options: { admin?: string; funds?: ContractFunds[] } = {}
+) {
+    const { MsgInstantiateContract } = await import('@injectivelabs/sdk-ts');
+    const sender = privateKey.toBech32();
+    const admin = options.admin ?? sender;
+    if (!await isAccountAddress(admin)) {
+        throw new ToolError('INVALID_ADDRESS', `${admin} is not a valid inj1... address`);
+    }
+    const funds = await toFunds(network, options.funds);
+    if (funds.length > 1) {
+        throw new ToolError('INVALID_FUNDS', 'Only one coin can be sent when instantiating a contract');
+    }
+    // The new contract's address is only known once it exists, so it cannot be on an allow list
+    if (funds.length > 0) {
+        await assertUnknownRecipientAllowed(`instantiation of code ${codeId}`, 'the new contract');
+    }
+
+    const instantiateMsg = MsgInstantiateContract.fromJSON({ sender, admin, codeId, label, msg, amount: funds[0] });
+    // An admin other than the signer gets migrate rights over the contract and whatever it will hold
+    const recipients = admin !== sender ? [admin] : [];
+    const tx = await broadcastMsgs(network, privateKey, [instantiateMsg], `instantiation of code ${codeId}`, { ...WASM_FEE_OPTIONS, spend: funds, recipients });
+
+    const contractAddress = findEventAttribute(tx, 'instantiate', '_contract_address');
+    if (!contractAddress) {
+        throw new ToolError('CONTRACT_ADDRESS_MISSING', `Transaction ${tx.txHash} succeeded but did not report a contract address`, { txHash: tx.txHash });
+    }
+    return { tx, contractAddress, admin, wasmEvents: wasmEvents(tx) };
+}
+
+/**
+ * Executes a contract message, optionally sending funds with it
+ */
+export async function executeContract(
+    network: NetworkContext,
+    privateKey: PrivateKey,
+    contractAddress: string,
+    msg: object,
+    funds?: ContractFunds[]
+): Promise<ContractCallResult> {
+    const { MsgExecuteContract } = await import('@injectivelabs/sdk-ts');
+    await fetchContractInfo(network, contractAddress);
+    const coins = await toFunds(network, funds);
+    const cw20 = findCw20Movements(msg);
+    const recipients = [...(coins.length > 0 ? [contractAddress] : []), ...cw20.recipients];
+    // CW20 amounts come from the contract's own balances, so they count for the policy but not the bank balance check
+    const policySpend = [...coins, ...await toCw20Spend(network, contractAddress, cw20.amount)];
+
+    const executeMsg = MsgExecuteContract.fromJSON({
+        sender: privateKey.toBech32(),
+        contractAddress,
+        msg,
+        funds: coins.length > 0 ? coins : undefined
+    });
+    const tx = await broadcastMsgs(network, privateKey, [executeMsg], `execution of ${contractAddress}`, { ...WASM_FEE_OPTIONS, spend: coins, policySpend, recipients });
+    return { tx, wasmEvents: wasmEvents(tx) };
+}
+
+/**
+ * Runs a read-only smart query and returns the decoded JSON response
+ */
+export async function queryContractSmart(network: NetworkContext, contractAddress: string, query: object): Promise<unknown> {
+    const { ChainGrpcWasmApi } = await import('@injectivelabs/sdk-ts');
+
+    let response;
+    try {
+        response = await new ChainGrpcWasmApi(network.endpoints.grpc).fetchSmartContractState(contractAddress, query as Record<string, any>);
+    } catch (error: any) {
+        throw new ToolError('QUERY_FAILED', `Query of ${contractAddress} failed: ${error.originalMessage || error.message}`);
+    }
+
+    const text = Buffer.from(response.data).toString('utf8');
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+/**
+ * Migrates a contract to other stored code. Only the contract's admin can migrate it.
+ */
+export async function migrateContract(
+    network: NetworkContext,
+    privateKey: PrivateKey,
+    contractAddress: string,
+    codeId: number,
+    msg: object
+): Promise<ContractCallResult> {
+    const { MsgMigrateContract } = await import('@injectivelabs/sdk-ts');
+    const sender = privateKey.toBech32();
+    const info = await fetchContractInfo(network, contractAddress);
+    if (info.admin !== sender) {
+        throw new ToolError('NOT_CONTRACT_ADMIN',
+            `${sender} is not the admin of ${contractAddress}; ${info.admin ? `its admin is ${info.admin}` : 'it has no admin and cannot be migrated'}`);
+    }
+
+    const migrateMsg = MsgMigrateContract.fromJSON({ sender, contract: contractAddress, codeId, msg });
+    const tx = await broadcastMsgs(network, privateKey, [migrateMsg], `migration of ${contractAddress} to code ${codeId}`, WASM_FEE_OPTIONS);
+    return { tx, wasmEvents: wasmEvents(tx) };
+}
+
+export async function getCw20TokenInfo(network: NetworkContext, contractAddress: string): Promise<Cw20TokenInfo> {
+    const info = await queryContractSmart(network, contractAddress, { token_info: {} });
+    if (!info || typeof info !== 'object') {
+        throw new ToolError('NOT_CW20', `${contractAddress} did not answer a CW20 token_info query`);
+    }
+    const { name, symbol, decimals, total_supply: totalSupply } = info as Record<string, unknown>;
+    if (typeof decimals !== 'number' || typeof totalSupply !== 'string') {
+        throw new ToolError('NOT_CW20', `${contractAddress} did not answer a CW20 token_info query`);
+    }
+    return {
+        name: String(name ?? ''),
+        symbol: String(symbol ?? ''),
+        decimals,
+        totalSupply: fromBaseUnits(totalSupply, decimals)
+    };
+}
+
+/**
+ * Instantiates a cw20-base contract with the whole initial supply held by the signer, who also becomes the minter
+ */
+export async function deployCw20(
+    network: NetworkContext,
+    privateKey: PrivateKey,
+    codeId: number,
+    name: string,
+    symbol: string,
+    initialSupply: string,
+    decimals: number
+) {
+    const sender = privateKey.toBech32();
+    const result = await instantiateContract(network, privateKey, codeId, `${symbol} CW20`, {
+        name,
+        symbol,
+        decimals,
+        initial_balances: [{ address: sender, amount: toBaseUnits(initialSupply, decimals) }],
+        mint: { minter: sender }
+    });
+    return { ...result, name, symbol, decimals, initialSupply };
+}
+
+/**
+ * Transfers CW20 tokens, checking the signer's token balance first
+ */
+export async function transferCw20(network: NetworkContext, privateKey: PrivateKey, contractAddress: string, recipient: string, amount: string) {
+    if (!await isAccountAddress(recipient)) {
+        throw new ToolError('INVALID_ADDRESS', `${recipient} is not a valid inj1... address`);
+    }
+    const sender = privateKey.toBech32();
+    const token = await getCw20TokenInfo(network, contractAddress);
+    const baseAmount = toBaseUnits(amount, token.decimals);
+
+    const { balance } = await queryContractSmart(network, contractAddress, { balance: { address: sender } }) as { balance: string };
+    if (new BigNumber(balance).lt(baseAmount)) {
+        throw new ToolError('INSUFFICIENT_FUNDS',
+            `CW20 balance of ${fromBaseUnits(balance, token.decimals)} ${token.symbol} does not cover ${amount} ${token.symbol}`);
+    }
+
+    const result = await executeContract(network, privateKey, contractAddress, { transfer: { recipient, amount: baseAmount } });
+    return { ...result, token };
+}
@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BigNumber } from '@injectivelabs/utils';
+import { AmountSchema, fromBaseUnits, toBaseUnits } from '../src/amounts.js';
+
+const FUZZ_RUNS = 2000;
+
+/**
+ * Small seeded PRNG (mulberry32), so a failing case can be reproduced from the seed in the assertion message
+ */
+function createRandom(seed: number) {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function randomInt(random: () => number, max: number): number {
+    return Math.floor(random() * (max + 1));
+}
+
+function randomDigits(random: () => number, length: number): string {
+    return Array.from({ length }, () => randomInt(random, 9)).join('');
+}
+
+/**
+ * A decimal string with at most `decimals` fraction digits and up to 40 integer digits, well beyond 2^53
+ */
+function randomAmount(random: () => number, decimals: number): string {
+    const integer = randomDigits(random, 1 + randomInt(random, 39)).replace(/^0+(?=\d)/, '');
+    const fraction = randomDigits(random, randomInt(random, decimals)).replace(/0+$/, '');
+    return fraction ? `${integer}.${fraction}` : integer;
+}
+
+describe('toBaseUnits and fromBaseUnits', () => {
+    it('round-trips random amounts at random decimals', () => {
+        const seed = Date.now();
+        const random = createRandom(seed);
+        for (let run = 0; run < FUZZ_RUNS; run++) {
+            const decimals = randomInt(random, 18);
+            const amount = randomAmount(random, decimals);
+            const base = toBaseUnits(amount, decimals);
+
+            assert.match(base, /^\d+$/, `seed ${seed}: ${amount} at ${decimals} decimals gave ${base}`);
+            assert.equal(fromBaseUnits(base, decimals), amount, `seed ${seed}: ${amount} at ${decimals} decimals`);
+        }
+    });
+
+    it('round-trips random base unit integers', () => {
+        const seed = Date.now();
+        const random = createRandom(seed);
+        for (let run = 0; run < FUZZ_RUNS; run++) {
+            const decimals = randomInt(random, 18);
+            const base = randomDigits(random, 1 + randomInt(random, 45)).replace(/^0+(?=\d)/, '');
+
+            assert.equal(toBaseUnits(fromBaseUnits(base, decimals), decimals), base, `seed ${seed}: ${base} at ${decimals} decimals`);
+        }
+    });
+
+    it('handles zero', () => {
+        for (const decimals of [0, 6, 18]) {
+            assert.equal(toBaseUnits('0', decimals), '0');
+            assert.equal(fromBaseUnits('0', decimals), '0');
+        }
+    });
+
+    it('scales 18 decimals exactly', () => {
+        assert.equal(toBaseUnits('1', 18), '1000000000000000000');
+        assert.equal(toBaseUnits('0.000000000000000001', 18), '1');
+        assert.equal(fromBaseUnits('1', 18), '0.000000000000000001');
+        assert.equal(toBaseUnits('123456789.123456789123456789', 18), '123456789123456789123456789');
+    });
+
+    it('keeps values above 2^53 exact and out of exponent notation', () => {
+        const aboveSafeInteger = new BigNumber(2).pow(53).plus(1).toFixed();
+        assert.equal(toBaseUnits(aboveSafeInteger, 0), '9007199254740993');
+        assert.equal(fromBaseUnits('9007199254740993', 0), '9007199254740993');
+        assert.equal(toBaseUnits('1000', 18), '1000000000000000000000');
+        assert.equal(fromBaseUnits('1000000000000000000000000000000', 6), '1000000000000000000000000');
+    });
+
+    it('rejects more decimal places than the token supports', () => {
+        assert.throws(() => toBaseUnits('1.5', 0), /more than 0 decimal places/);
+        assert.throws(() => toBaseUnits('0.0000001', 6), /more than 6 decimal places/);
+        assert.throws(() => toBaseUnits('1.0000000000000000001', 18), /more than 18 decimal places/);
+    });
+
+    it('rejects negative and non-finite amounts', () => {
+        assert.throws(() => toBaseUnits('-1', 6), /Invalid amount/);
+        assert.throws(() => toBaseUnits('abc', 6), /Invalid amount/);
+        assert.throws(() => fromBaseUnits('Infinity', 6), /Invalid base unit amount/);
+    });
+});
+
+describe('AmountSchema', () => {
+    it('accepts plain decimal strings unchanged', () => {
+        const seed = Date.now();
+        const random = createRandom(seed);
+        for (let run = 0; run < FUZZ_RUNS; run++) {
+            const amount = randomAmount(random, 18);
+            if (new BigNumber(amount).isZero()) {
+                continue;
+            }
+            assert.equal(AmountSchema.parse(amount), amount, `seed ${seed}: ${amount}`);
+        }
+    });
+
+    it('converts numbers without exponent notation', () => {
+        assert.equal(AmountSchema.parse(1e21), '1000000000000000000000');
+        assert.equal(AmountSchema.parse(1e-7), '0.0000001');
+        assert.equal(AmountSchema.parse(2.5), '2.5');
+    });
+
+    it('rejects exponent notation, signs, separators and zero', () => {
+        for (const amount of ['1e18', '1E-6', '-1', '+1', '1,000', '1.', '.5', '', 'abc', '0', '0.0']) {
+            assert.equal(AmountSchema.safeParse(amount).success, false, `${JSON.stringify(amount)} should be rejected`);
+        }
+        assert.equal(AmountSchema.safeParse(0).success, false);
+        assert.equal(AmountSchema.safeParse(-1).success, false);
+    });
+});
@@ -0,0 +1,144 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { after, afterEach, beforeEach, describe, it, mock } from 'node:test';
+import type { PrivateKey } from '@injectivelabs/sdk-ts';
+import type { NetworkContext } from '../src/network.js';
+
+// The config dir is fixed when the modules load, so it is pointed at a temporary one before importing them
+const configDir = await fs.mkdtemp(path.join(os.tmpdir(), 'inj-mcp-confirmation-'));
+process.env.INJECTIVE_MCP_HOME = configDir;
+process.env.INJECTIVE_MCP_CONFIG = path.join(configDir, 'config.json');
+process.env.INJECTIVE_MCP_POLICY = path.join(configDir, 'policy.json');
+
+const { requireConfirmation, resumeHeldTransaction, runConfirmable, setConfirmationProvider } = await import('../src/confirmation.js');
+
+const network = { name: 'testnet' } as NetworkContext;
+const privateKey = { toBech32: () => 'inj1signer' } as PrivateKey;
+const fee = { amount: [{ denom: 'inj', amount: '100000000000000' }], gas: '100000' };
+const TTL_SECONDS = 60;
+
+async function writePolicy(policy: unknown) {
+    await fs.writeFile(process.env.INJECTIVE_MCP_POLICY!, JSON.stringify(policy));
+}
+
+/**
+ * Stands in for a tool that broadcasts one transaction per leg and reports what happened after each
+ */
+function confirmLegs(legs: number, log: string[]) {
+    return async () => {
+        for (let leg = 1; leg <= legs; leg++) {
+            const approved = await requireConfirmation(network, privateKey, [{ leg }], `swap leg ${leg}`, [], fee);
+            log.push(`leg ${leg} ${approved ? 'approved' : 'unconfirmed'}`);
+        }
+        return `swapped ${legs} legs`;
+    };
+}
+
+function tokenOf(outcome: { status: string; summary?: string }): string {
+    assert.equal(outcome.status, 'held');
+    const token = outcome.summary?.match(/Confirmation Token: (\S+)/)?.[1];
+    assert.ok(token, 'the summary names a confirmation token');
+    return token;
+}
+
+async function rejectsWith(promise: Promise<unknown>, code: string) {
+    await assert.rejects(promise, (error: any) => {
+        assert.equal(error.code, code, error.message);
+        return true;
+    });
+}
+
+beforeEach(async () => {
+    await writePolicy({ confirmation: { allTransactions: true, ttlSeconds: TTL_SECONDS } });
+    setConfirmationProvider(async () => undefined);
+});
+
+afterEach(() => {
+    mock.timers.reset();
+});
+
+after(async () => {
+    await fs.rm(configDir, { recursive: true, force: true });
+});
+
+describe('runConfirmable', () => {
+    it('finishes calls whose transactions need no confirmation', async () => {
+        await writePolicy({});
+        const log: string[] = [];
+        assert.deepEqual(await runConfirmable('swap-token', confirmLegs(1, log)), { status: 'done', result: 'swapped 1 legs' });
+        assert.deepEqual(log, ['leg 1 unconfirmed']);
+    });
+
+    it('holds a transaction and finishes the call once it is confirmed', async () => {
+        const log: string[] = [];
+        const held = await runConfirmable('transfer-token', confirmLegs(1, log));
+        assert.match(held.status === 'held' ? held.summary : '', /Prepared swap leg 1 on testnet\nFrom: inj1signer/);
+        assert.deepEqual(log, []);
+
+        const token = tokenOf(held);
+        assert.deepEqual(await resumeHeldTransaction(token), { status: 'done', result: 'swapped 1 legs' });
+        assert.deepEqual(log, ['leg 1 approved']);
+
+        await rejectsWith(resumeHeldTransaction(token), 'UNKNOWN_CONFIRMATION');
+    });
+
+    it('holds each leg in turn with a new token', async () => {
+        const log: string[] = [];
+        const first = tokenOf(await runConfirmable('swap-token', confirmLegs(2, log)));
+
+        const secondOutcome = await resumeHeldTransaction(first);
+        assert.match(secondOutcome.status === 'held' ? secondOutcome.summary : '', /Prepared swap leg 2/);
+        const second = tokenOf(secondOutcome);
+        assert.notEqual(second, first);
+        assert.deepEqual(log, ['leg 1 approved']);
+
+        assert.deepEqual(await resumeHeldTransaction(second), { status: 'done', result: 'swapped 2 legs' });
+        assert.deepEqual(log, ['leg 1 approved', 'leg 2 approved']);
+    });
+
+    it('fails the held transaction when it expires', async () => {
+        mock.timers.enable({ apis: ['setTimeout'] });
+        const failures: string[] = [];
+        const task = confirmLegs(1, []);
+        const token = tokenOf(await runConfirmable('transfer-token', () => task().catch((error) => {
+            failures.push(error.code);
+            return 'failed';
+        })));
+
+        mock.timers.tick(TTL_SECONDS * 1000);
+        await new Promise((resolve) => setImmediate(resolve));
+        assert.deepEqual(failures, ['CONFIRMATION_EXPIRED']);
+        await rejectsWith(resumeHeldTransaction(token), 'CONFIRMATION_EXPIRED');
+    });
+
+    it('discards the held transaction when its tool was disabled before confirming', async () => {
+        const failures: string[] = [];
+        const task = confirmLegs(1, []);
+        const token = tokenOf(await runConfirmable('transfer-token', () => task().catch((error) => {
+            failures.push(error.code);
+            return 'failed';
+        })));
+
+        await writePolicy({ tools: { 'transfer-token': false }, confirmation: { allTransactions: true } });
+        await rejectsWith(resumeHeldTransaction(token), 'TOOL_DISABLED');
+        await new Promise((resolve) => setImmediate(resolve));
+        assert.deepEqual(failures, ['TOOL_DISABLED']);
+        await rejectsWith(resumeHeldTransaction(token), 'UNKNOWN_CONFIRMATION');
+    });
+});
+
+describe('requireConfirmation', () => {
+    it('uses the answer of the confirmation provider', async () => {
+        setConfirmationProvider(async () => true);
+        assert.equal(await requireConfirmation(network, privateKey, [], 'transfer', [], fee), true);
+
+        setConfirmationProvider(async () => false);
+        await rejectsWith(requireConfirmation(network, privateKey, [], 'transfer', [], fee), 'TRANSACTION_REJECTED');
+    });
+
+    it('cannot hold a transaction outside a confirmable call', async () => {
+        await rejectsWith(requireConfirmation(network, privateKey, [], 'transfer', [], fee), 'CONFIRMATION_UNAVAILABLE');
+    });
+});
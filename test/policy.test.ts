@@ -0,0 +1,168 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { after, beforeEach, describe, it } from 'node:test';
+import type { NetworkContext } from '../src/network.js';
+
+// The config dir is fixed when the modules load, so it is pointed at a temporary one before importing them
+const configDir = await fs.mkdtemp(path.join(os.tmpdir(), 'inj-mcp-policy-'));
+process.env.INJECTIVE_MCP_HOME = configDir;
+process.env.INJECTIVE_MCP_CONFIG = path.join(configDir, 'config.json');
+process.env.INJECTIVE_MCP_POLICY = path.join(configDir, 'policy.json');
+
+const USDT = 'peggy0xdAC17F958D2ee523a2206206994597C13D831ec7';
+await fs.writeFile(process.env.INJECTIVE_MCP_CONFIG, JSON.stringify({ tokens: { [USDT]: { symbol: 'USDT', decimals: 6 } } }));
+
+const { assertToolEnabled, findConfirmationReasons, releaseSpend, reserveSpend } = await import('../src/policy.js');
+const { findCw20Movements } = await import('../src/wasm.js');
+
+// Token metadata comes from built-ins and overrides, so no endpoint is ever contacted
+const network = { name: 'testnet' } as NetworkContext;
+
+const inj = (amount: string) => ({ denom: 'inj', amount: `${amount}000000000000000000` });
+const usdt = (amount: string) => ({ denom: USDT, amount: `${amount}000000` });
+
+async function writePolicy(policy: unknown) {
+    await fs.writeFile(process.env.INJECTIVE_MCP_POLICY!, typeof policy === 'string' ? policy : JSON.stringify(policy));
+}
+
+async function rejectsWith(promise: Promise<unknown>, code: string) {
+    await assert.rejects(promise, (error: any) => {
+        assert.equal(error.code, code, error.message);
+        return true;
+    });
+}
+
+beforeEach(async () => {
+    await fs.rm(process.env.INJECTIVE_MCP_POLICY!, { force: true });
+    await fs.rm(path.join(configDir, 'spending-ledger.json'), { force: true });
+});
+
+after(async () => {
+    await fs.rm(configDir, { recursive: true, force: true });
+});
+
+describe('reserveSpend', () => {
+    it('allows everything without a policy file', async () => {
+        await reserveSpend(network, [inj('1000')], ['inj1anyone'], 'transfer');
+    });
+
+    it('enforces per-transaction limits', async () => {
+        await writePolicy({ limits: { INJ: { perTransaction: '10' } } });
+        await reserveSpend(network, [inj('10')], [], 'transfer');
+        await rejectsWith(reserveSpend(network, [inj('11')], [], 'transfer'), 'PER_TRANSACTION_LIMIT');
+    });
+
+    it('looks limits up by denom or case-insensitively by symbol', async () => {
+        await writePolicy({ limits: { [USDT]: { perTransaction: '5' }, inj: { perTransaction: '1' } } });
+        await rejectsWith(reserveSpend(network, [usdt('6')], [], 'transfer'), 'PER_TRANSACTION_LIMIT');
+        await rejectsWith(reserveSpend(network, [inj('2')], [], 'transfer'), 'PER_TRANSACTION_LIMIT');
+
+        await writePolicy({ limits: { usdt: { perTransaction: '5' } } });
+        await rejectsWith(reserveSpend(network, [usdt('6')], [], 'transfer'), 'PER_TRANSACTION_LIMIT');
+        await reserveSpend(network, [inj('100')], [], 'transfer');
+    });
+
+    it('adds up reservations against the daily limit per network', async () => {
+        await writePolicy({ limits: { INJ: { daily: '10' } } });
+        await reserveSpend(network, [inj('6')], [], 'transfer');
+        await rejectsWith(reserveSpend(network, [inj('5')], [], 'transfer'), 'DAILY_LIMIT');
+        await reserveSpend({ ...network, name: 'mainnet' }, [inj('10')], [], 'transfer');
+        await reserveSpend(network, [inj('4')], [], 'transfer');
+    });
+
+    it('lets concurrent reservations together stay within the daily limit', async () => {
+        await writePolicy({ limits: { INJ: { daily: '10' } } });
+        const results = await Promise.allSettled([1, 2, 3].map(() => reserveSpend(network, [inj('4')], [], 'transfer')));
+        assert.equal(results.filter((result) => result.status === 'fulfilled').length, 2);
+    });
+
+    it('releases a reservation so its spending no longer counts', async () => {
+        await writePolicy({ limits: { INJ: { daily: '10' } } });
+        const reservation = await reserveSpend(network, [inj('8')], [], 'transfer');
+        await rejectsWith(reserveSpend(network, [inj('8')], [], 'transfer'), 'DAILY_LIMIT');
+
+        await releaseSpend(network, reservation);
+        await reserveSpend(network, [inj('8')], [], 'transfer');
+    });
+
+    it('checks recipients against the deny and allow lists', async () => {
+        await writePolicy({ recipients: { deny: ['inj1denied'] } });
+        await rejectsWith(reserveSpend(network, [], ['inj1denied'], 'transfer'), 'RECIPIENT_DENIED');
+        await reserveSpend(network, [], ['inj1other'], 'transfer');
+
+        await writePolicy({ recipients: { allow: ['inj1allowed'] } });
+        await reserveSpend(network, [inj('1')], ['inj1allowed'], 'transfer');
+        await rejectsWith(reserveSpend(network, [], ['inj1allowed', 'inj1other'], 'transfer'), 'RECIPIENT_NOT_ALLOWED');
+    });
+
+    it('does not record spending that was rejected', async () => {
+        await writePolicy({ limits: { INJ: { daily: '10' } }, recipients: { deny: ['inj1denied'] } });
+        await rejectsWith(reserveSpend(network, [inj('8')], ['inj1denied'], 'transfer'), 'RECIPIENT_DENIED');
+        await reserveSpend(network, [inj('10')], [], 'transfer');
+    });
+
+    it('blocks every guarded action when the policy file is invalid', async () => {
+        await writePolicy('{ not json');
+        await rejectsWith(reserveSpend(network, [], [], 'transfer'), 'INVALID_POLICY');
+        await rejectsWith(assertToolEnabled('transfer-token'), 'INVALID_POLICY');
+
+        await writePolicy({ limits: { INJ: { perTransaction: '-1' } } });
+        await rejectsWith(reserveSpend(network, [], [], 'transfer'), 'INVALID_POLICY');
+        await writePolicy({ unknownSection: true });
+        await rejectsWith(reserveSpend(network, [], [], 'transfer'), 'INVALID_POLICY');
+    });
+});
+
+describe('assertToolEnabled', () => {
+    it('rejects only tools switched off', async () => {
+        await writePolicy({ tools: { 'transfer-token': false, 'swap-token': true } });
+        await rejectsWith(assertToolEnabled('transfer-token'), 'TOOL_DISABLED');
+        await assertToolEnabled('swap-token');
+        await assertToolEnabled('vote');
+    });
+});
+
+describe('findConfirmationReasons', () => {
+    it('asks for nothing without a confirmation section', async () => {
+        await writePolicy({ limits: {} });
+        assert.deepEqual(await findConfirmationReasons(network, [inj('1000')], 'undelegate'), []);
+    });
+
+    it('reports spending above a threshold, looked up by denom or symbol', async () => {
+        await writePolicy({ confirmation: { thresholds: { INJ: '1', [USDT]: '100' } } });
+        assert.deepEqual(await findConfirmationReasons(network, [inj('1'), usdt('100')], 'transfer-token'), []);
+        const reasons = await findConfirmationReasons(network, [inj('2'), usdt('101')], 'transfer-token');
+        assert.equal(reasons.length, 2);
+        assert.match(reasons[0], /2 INJ exceeds the confirmation threshold of 1 INJ/);
+    });
+
+    it('always confirms listed tools and every transaction when asked to', async () => {
+        await writePolicy({ confirmation: {} });
+        assert.equal((await findConfirmationReasons(network, [], 'undelegate')).length, 1);
+        assert.deepEqual(await findConfirmationReasons(network, [], 'vote'), []);
+
+        await writePolicy({ confirmation: { alwaysConfirm: [] } });
+        assert.deepEqual(await findConfirmationReasons(network, [], 'undelegate'), []);
+
+        await writePolicy({ confirmation: { allTransactions: true } });
+        assert.equal((await findConfirmationReasons(network, [], 'vote')).length, 1);
+    });
+});
+
+describe('findCw20Movements', () => {
+    it('reads recipients and amounts from CW20 messages', () => {
+        assert.deepEqual(findCw20Movements({ transfer: { recipient: 'inj1a', amount: '100' } }), { recipients: ['inj1a'], amount: '100' });
+        assert.deepEqual(findCw20Movements({ send: { contract: 'inj1c', amount: '5', msg: '' } }), { recipients: ['inj1c'], amount: '5' });
+        assert.deepEqual(findCw20Movements({ increase_allowance: { spender: 'inj1s', amount: '7' } }), { recipients: ['inj1s'], amount: '7' });
+        assert.deepEqual(findCw20Movements({ burn: { amount: '3' } }), { recipients: [], amount: '3' });
+    });
+
+    it('counts no spending for minting, admin changes or other messages', () => {
+        assert.deepEqual(findCw20Movements({ mint: { recipient: 'inj1m', amount: '100' } }), { recipients: ['inj1m'], amount: '0' });
+        assert.deepEqual(findCw20Movements({ update_minter: { new_minter: 'inj1n' } }), { recipients: ['inj1n'], amount: '0' });
+        assert.deepEqual(findCw20Movements({ increment: {} }), { recipients: [], amount: '0' });
+        assert.deepEqual(findCw20Movements({ transfer: { recipient: 'inj1a', amount: '1e18' } }), { recipients: ['inj1a'], amount: '0' });
+    });
+});
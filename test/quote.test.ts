@@ -0,0 +1,137 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { after, describe, it } from 'node:test';
+import { BigNumber } from '@injectivelabs/utils';
+import type { SpotMarketInfo, SpotOrderbook } from '../src/markets.js';
+import type { NetworkContext } from '../src/network.js';
+
+// Token decimals come from a temporary config file, so quotes never contact an endpoint
+const configDir = await fs.mkdtemp(path.join(os.tmpdir(), 'inj-mcp-quote-'));
+process.env.INJECTIVE_MCP_HOME = configDir;
+process.env.INJECTIVE_MCP_CONFIG = path.join(configDir, 'config.json');
+
+const USDT = 'peggy0xdAC17F958D2ee523a2206206994597C13D831ec7';
+await fs.writeFile(process.env.INJECTIVE_MCP_CONFIG, JSON.stringify({ tokens: { [USDT]: { symbol: 'USDT', decimals: 6 } } }));
+
+const { assertQuoteExecutable, quoteMarketSwap, walkOrderbook } = await import('../src/quote.js');
+
+const network = { name: 'testnet' } as NetworkContext;
+
+// INJ has 18 decimals and USDT 6, so a human price of 25 USDT per INJ is 25e-12 on chain
+const market: SpotMarketInfo = {
+    marketId: '0xinjusdt',
+    ticker: 'INJ/USDT',
+    baseDenom: 'inj',
+    quoteDenom: USDT,
+    marketStatus: 'active',
+    makerFeeRate: '0',
+    takerFeeRate: '0',
+    minPriceTickSize: '0.000000000000001',
+    minQuantityTickSize: '1000000000000000',
+    minNotional: '0'
+};
+
+const chainPrice = (human: number) => new BigNumber(human).shiftedBy(-12).toFixed();
+const inj = (human: number) => new BigNumber(human).shiftedBy(18).toFixed();
+
+after(async () => {
+    await fs.rm(configDir, { recursive: true, force: true });
+});
+
+describe('walkOrderbook', () => {
+    const book: SpotOrderbook = {
+        sells: [{ price: '2', quantity: '10' }, { price: '3', quantity: '10' }],
+        buys: [{ price: '2', quantity: '10' }, { price: '1', quantity: '10' }]
+    };
+
+    it('buys through several levels with the fee taken out of the budget', () => {
+        const fill = walkOrderbook(book, 'buy', new BigNumber('40.04'), new BigNumber('0.001'));
+        assert.equal(fill.notional.toFixed(), '40');
+        assert.equal(fill.fee.toFixed(), '0.04');
+        assert.equal(fill.filledInput.toFixed(), '40.04');
+        assert.equal(fill.unfilledInput.toFixed(), '0');
+        assert.equal(fill.quantity.decimalPlaces(6).toFixed(), '16.666667');
+        assert.equal(fill.averagePrice.toFixed(), '2.4');
+        assert.equal(fill.bestPrice.toFixed(), '2');
+        assert.equal(fill.worstPrice.toFixed(), '3');
+        assert.equal(fill.levelsUsed, 2);
+    });
+
+    it('fills part of a level and stops', () => {
+        const fill = walkOrderbook(book, 'sell', new BigNumber('4'), new BigNumber('0'));
+        assert.equal(fill.quantity.toFixed(), '4');
+        assert.equal(fill.output.toFixed(), '8');
+        assert.equal(fill.worstPrice.toFixed(), '2');
+        assert.equal(fill.levelsUsed, 1);
+    });
+
+    it('reports what the book is too shallow to fill', () => {
+        const fill = walkOrderbook(book, 'sell', new BigNumber('30'), new BigNumber('0.01'));
+        assert.equal(fill.filledInput.toFixed(), '20');
+        assert.equal(fill.unfilledInput.toFixed(), '10');
+        assert.equal(fill.notional.toFixed(), '30');
+        assert.equal(fill.output.toFixed(), '29.7');
+        assert.equal(fill.worstPrice.toFixed(), '1');
+    });
+
+    it('rejects an empty side of the book', () => {
+        assert.throws(() => walkOrderbook({ buys: [], sells: [] }, 'buy', new BigNumber(1), new BigNumber(0)), { code: 'EMPTY_ORDERBOOK' });
+    });
+});
+
+describe('quoteMarketSwap', () => {
+    const book: SpotOrderbook = {
+        sells: [{ price: chainPrice(25), quantity: inj(2) }, { price: chainPrice(30), quantity: inj(10) }],
+        buys: [{ price: chainPrice(24), quantity: inj(1) }, { price: chainPrice(20), quantity: inj(1) }]
+    };
+
+    it('shifts amounts and prices between chain and human units when buying', async () => {
+        const quote = await quoteMarketSwap(network, market, USDT, '100', book);
+        assert.equal(quote.side, 'buy');
+        assert.equal(quote.toDenom, 'inj');
+        assert.equal(quote.filledInputAmount, '100');
+        assert.equal(quote.unfilledInputAmount, '0');
+        assert.equal(quote.expectedOutputAmount, '3.666666666666666666');
+        assert.equal(quote.bestPrice, '25');
+        assert.equal(quote.worstPrice, '30');
+        assert.match(quote.averagePrice, /^27\.2727/);
+        assert.equal(quote.priceImpact, '9.0909');
+        assert.equal(quote.chainWorstPrice, chainPrice(30));
+    });
+
+    it('deducts the taker fee from the proceeds of a sell', async () => {
+        const quote = await quoteMarketSwap(network, { ...market, takerFeeRate: '0.001' }, 'inj', '1', book);
+        assert.equal(quote.side, 'sell');
+        assert.equal(quote.toDenom, USDT);
+        assert.equal(quote.expectedOutputAmount, '23.976');
+        assert.equal(quote.fee, '0.024');
+        assert.equal(quote.priceImpact, '0.0000');
+    });
+
+    it('reports the unfilled part of a partial fill', async () => {
+        const quote = await quoteMarketSwap(network, market, 'inj', '3', book);
+        assert.equal(quote.filledInputAmount, '2');
+        assert.equal(quote.unfilledInputAmount, '1');
+        assert.equal(quote.expectedOutputAmount, '44');
+    });
+
+    it('rejects a book that cannot fill anything', async () => {
+        await assert.rejects(quoteMarketSwap(network, market, USDT, '100', { buys: [], sells: [{ price: chainPrice(25), quantity: '0' }] }), { code: 'NO_LIQUIDITY' });
+    });
+});
+
+describe('assertQuoteExecutable', () => {
+    it('rejects partial fills and price impact above the bound', async () => {
+        const book: SpotOrderbook = { sells: [{ price: chainPrice(25), quantity: inj(2) }, { price: chainPrice(30), quantity: inj(10) }], buys: [] };
+        const quote = await quoteMarketSwap(network, market, USDT, '100', book);
+
+        assert.throws(() => assertQuoteExecutable(quote, 5), { code: 'PRICE_IMPACT_TOO_HIGH' });
+        assertQuoteExecutable(quote, 9.0909);
+        assertQuoteExecutable(quote);
+
+        const partial = await quoteMarketSwap(network, market, USDT, '1000', book);
+        assert.throws(() => assertQuoteExecutable(partial), { code: 'INSUFFICIENT_LIQUIDITY' });
+    });
+});
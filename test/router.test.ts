@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { SpotMarketInfo } from '../src/markets.js';
+import { findCandidateRoutes, findRoutes } from '../src/router.js';
+
+function market(baseDenom: string, quoteDenom: string, marketStatus = 'active'): SpotMarketInfo {
+    return {
+        marketId: `${baseDenom}/${quoteDenom}`,
+        ticker: `${baseDenom.toUpperCase()}/${quoteDenom.toUpperCase()}`,
+        baseDenom,
+        quoteDenom,
+        marketStatus,
+        makerFeeRate: '0',
+        takerFeeRate: '0',
+        minPriceTickSize: '0.001',
+        minQuantityTickSize: '0.001',
+        minNotional: '0'
+    };
+}
+
+const ids = (routes: SpotMarketInfo[][]) => routes.map((route) => route.map((m) => m.marketId).join(' > '));
+
+describe('findRoutes', () => {
+    it('lists direct routes before multi-hop ones, in either market direction', () => {
+        const markets = [market('atom', 'inj'), market('inj', 'usdt'), market('atom', 'usdt')];
+        assert.deepEqual(ids(findRoutes(markets, 'usdt', 'atom')), ['atom/usdt', 'inj/usdt > atom/inj']);
+    });
+
+    it('only hops through quote assets', () => {
+        const markets = [market('atom', 'usdt'), market('atom', 'tia'), market('tia', 'weth')];
+        assert.deepEqual(findRoutes(markets, 'usdt', 'tia'), []);
+        assert.deepEqual(ids(findRoutes([...markets, market('weth', 'usdt')], 'usdt', 'tia')), ['weth/usdt > tia/weth']);
+    });
+
+    it('stops at three legs', () => {
+        // x -> q1 -> q2 -> q3 -> y needs four legs; the q2 -> y market makes a three leg route
+        const markets = [market('x', 'q1'), market('q1', 'q2'), market('q2', 'q3'), market('y', 'q3')];
+        assert.deepEqual(findRoutes(markets, 'x', 'y'), []);
+
+        const routes = findRoutes([...markets, market('y', 'q2')], 'x', 'y');
+        assert.deepEqual(ids(routes), ['x/q1 > q1/q2 > y/q2']);
+        assert.ok(routes.every((route) => route.length <= 3));
+    });
+});
+
+describe('findCandidateRoutes', () => {
+    // Twenty parallel two-leg routes from x to y, one through each quote asset
+    const parallel = Array.from({ length: 20 }, (_, i) => [market('x', `q${i}`), market('y', `q${i}`)]).flat();
+
+    it('quotes at most twelve routes, shortest first', () => {
+        assert.equal(findRoutes(parallel, 'x', 'y').length, 20);
+        assert.equal(findCandidateRoutes(parallel, 'x', 'y').length, 12);
+
+        const routes = findCandidateRoutes([...parallel, market('x', 'y')], 'x', 'y');
+        assert.equal(routes.length, 12);
+        assert.deepEqual(ids(routes.slice(0, 1)), ['x/y']);
+    });
+
+    it('never routes through markets that are not active', () => {
+        const markets = [market('atom', 'usdt', 'paused'), market('atom', 'inj'), market('inj', 'usdt'), market('atom', 'weth'), market('weth', 'usdt', 'demolished')];
+        assert.deepEqual(ids(findCandidateRoutes(markets, 'usdt', 'atom')), ['inj/usdt > atom/inj']);
+
+        const routes = findCandidateRoutes([...parallel, market('x', 'y', 'paused')], 'x', 'y');
+        assert.ok(routes.every((route) => route.every((m) => m.marketStatus === 'active')));
+        assert.equal(routes[0].length, 2);
+    });
+});
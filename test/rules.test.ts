@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BigNumber } from '@injectivelabs/utils';
+import { quantizePrice, quantizeQuantity, quantizeSpotOrder } from '../src/rules.js';
+import type { MarketRules } from '../src/rules.js';
+
+// INJ/USDT with 18 and 6 decimals: ticks of 0.001 USDT and 0.001 INJ, and a minimum order value of 1 USDT
+const rules: MarketRules = {
+    marketId: '0xinjusdt',
+    ticker: 'INJ/USDT',
+    baseDenom: 'inj',
+    quoteDenom: 'peggy0xdAC17F958D2ee523a2206206994597C13D831ec7',
+    minPriceTickSize: '0.000000000000001',
+    minQuantityTickSize: '1000000000000000',
+    minNotional: '1000000'
+};
+const inj = { decimals: 18, symbol: 'INJ' };
+const usdt = { decimals: 6, symbol: 'USDT' };
+
+const chainPrice = (human: string) => new BigNumber(human).shiftedBy(-12).toFixed();
+const chainQuantity = (human: string) => new BigNumber(human).shiftedBy(18).toFixed();
+
+describe('quantizePrice', () => {
+    it('rounds buys down and sells up to the price tick', () => {
+        assert.equal(quantizePrice(chainPrice('25.0009'), 'buy', rules).toFixed(), chainPrice('25'));
+        assert.equal(quantizePrice(chainPrice('25.0009'), 'sell', rules).toFixed(), chainPrice('25.001'));
+    });
+
+    it('keeps prices already on a tick', () => {
+        assert.equal(quantizePrice(chainPrice('25.001'), 'buy', rules).toFixed(), chainPrice('25.001'));
+        assert.equal(quantizePrice(chainPrice('25.001'), 'sell', rules).toFixed(), chainPrice('25.001'));
+    });
+
+    it('leaves prices unchanged without a tick', () => {
+        assert.equal(quantizePrice('1.23456', 'buy', { minPriceTickSize: '0' }).toFixed(), '1.23456');
+    });
+});
+
+describe('quantizeQuantity', () => {
+    it('rounds down to the quantity tick on either side', () => {
+        assert.equal(quantizeQuantity(chainQuantity('1.2349999'), rules).toFixed(), chainQuantity('1.234'));
+        assert.equal(quantizeQuantity(chainQuantity('1.234'), rules).toFixed(), chainQuantity('1.234'));
+    });
+});
+
+describe('quantizeSpotOrder', () => {
+    it('returns the quantized price and quantity', () => {
+        assert.deepEqual(quantizeSpotOrder(rules, inj, usdt, 'sell', chainPrice('25.0001'), chainQuantity('2.0005')), {
+            price: chainPrice('25.001'),
+            quantity: chainQuantity('2')
+        });
+    });
+
+    it('rejects orders below the minimum notional after quantizing', () => {
+        assert.throws(() => quantizeSpotOrder(rules, inj, usdt, 'buy', chainPrice('25'), chainQuantity('0.03')), (error: any) => {
+            assert.equal(error.code, 'BELOW_MIN_NOTIONAL');
+            assert.match(error.message, /Order value of 0\.75 USDT is below the minimum notional of INJ\/USDT \(1 USDT\)/);
+            return true;
+        });
+        // 0.0409 INJ rounds down to 0.04, which at 25 USDT is exactly the minimum
+        quantizeSpotOrder(rules, inj, usdt, 'buy', chainPrice('25'), chainQuantity('0.0409'));
+        assert.throws(() => quantizeSpotOrder(rules, inj, usdt, 'buy', chainPrice('24.9999'), chainQuantity('0.04')), { code: 'BELOW_MIN_NOTIONAL' });
+    });
+
+    it('rejects prices and quantities that round to zero', () => {
+        assert.throws(() => quantizeSpotOrder(rules, inj, usdt, 'buy', chainPrice('0.0009'), chainQuantity('1')), { code: 'PRICE_BELOW_TICK' });
+        assert.throws(() => quantizeSpotOrder(rules, inj, usdt, 'buy', chainPrice('25'), chainQuantity('0.0009')), { code: 'QUANTITY_BELOW_TICK' });
+    });
+});
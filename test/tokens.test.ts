@@ -0,0 +1,24 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { decimalsFromBankMetadata } from '../src/tokens.js';
+
+const base = { denom: 'factory/inj1creator/token', exponent: 0 };
+
+describe('decimalsFromBankMetadata', () => {
+    it('prefers the decimals field over the denom units', () => {
+        assert.equal(decimalsFromBankMetadata({ decimals: 18, display: 'TOKEN', denomUnits: [base, { denom: 'TOKEN', exponent: 6 }] }), 18);
+        assert.equal(decimalsFromBankMetadata({ decimals: 6, denomUnits: [base] }), 6);
+    });
+
+    it('falls back to the display unit, then the largest exponent', () => {
+        assert.equal(decimalsFromBankMetadata({ decimals: 0, display: 'TOKEN', denomUnits: [base, { denom: 'TOKEN', exponent: 6 }, { denom: 'KTOKEN', exponent: 9 }] }), 6);
+        assert.equal(decimalsFromBankMetadata({ display: 'other', denomUnits: [base, { denom: 'TOKEN', exponent: 8 }] }), 8);
+        assert.equal(decimalsFromBankMetadata({ display: base.denom, denomUnits: [base, { denom: 'TOKEN', exponent: 8 }] }), 8);
+    });
+
+    it('treats metadata with only the base unit as unknown rather than 0 decimals', () => {
+        assert.equal(decimalsFromBankMetadata({ decimals: 0, display: base.denom, denomUnits: [base] }), null);
+        assert.equal(decimalsFromBankMetadata({ decimals: 0, denomUnits: [] }), null);
+        assert.equal(decimalsFromBankMetadata({}), null);
+    });
+});